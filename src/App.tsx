@@ -1,7 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import Calendar from './components/Calendar';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import Calendar, { CalendarView } from './components/Calendar';
+import { TimeChange } from './components/TimeGridView';
 import EventModal from './components/EventModal';
-import { Clock, CalendarDays, Plus, Search, Download } from 'lucide-react';
+import ImportEventsModal from './components/ImportEventsModal';
+import RecurrenceScopeDialog from './components/RecurrenceScopeDialog';
+import ConflictDialog from './components/ConflictDialog';
+import FindTimeModal from './components/FindTimeModal';
+import CategoryManagerModal from './components/CategoryManagerModal';
+import TemplateManagerModal from './components/TemplateManagerModal';
+import CategoryLegend from './components/CategoryLegend';
+import SearchResults from './components/SearchResults';
+import QuickAddBar from './components/QuickAddBar';
+import BulkActionBar from './components/BulkActionBar';
+import AttendeeAvatars from './components/AttendeeAvatars';
+import EventResources from './components/EventResources';
+import Toast from './components/Toast';
+import { Clock, CalendarDays, Plus, Search, Download, Upload, Repeat, Globe, AlertTriangle, Undo2, Redo2, CalendarSearch, LayoutTemplate, MapPin } from 'lucide-react';
 import { Button } from './components/form/Buttons';
 import { Input } from './components/form/InputBox';
 import { DropResult } from '@hello-pangea/dnd';
@@ -10,66 +24,449 @@ import {
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
+  DropdownMenuSeparator,
 } from './components/form/DropdownSelect';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './components/form/Select';
+import {
+  Event,
+  convertEventTimeZone,
+  findEventDateKey,
+  findOverlappingEvents,
+  formatEventTimeRange,
+  generateEventId,
+  getEventEndDateKey,
+  getEventInterval,
+  getEventsOnDate,
+  listEvents,
+  toDisplayEvents,
+} from './lib/events';
+import { mergeImportedEvents } from './lib/importEvents';
+import { eventsToICalendar } from './lib/ical';
+import { downloadFile } from './lib/utils';
+import { EventRepository, describeStorageError, openEventRepository } from './lib/eventRepository';
+import { EVENT_SCHEMA_VERSION, QuarantinedRecord } from './lib/eventSchema';
+import {
+  CategoryRemoval,
+  HistoryState,
+  applyChanges,
+  diffEvents,
+  invertChanges,
+  loadHistory,
+  recordHistory,
+  saveHistory,
+} from './lib/history';
+import { TabSync, createTabSync } from './lib/tabSync';
+import { TimeSlot, suggestFreeSlots } from './lib/freeSlots';
+import {
+  Category,
+  countByCategory,
+  findCategory,
+  getCategoryName,
+  hideCategories,
+  loadCategories,
+  loadHiddenCategories,
+  reassignCategory,
+  saveCategories,
+  saveHiddenCategories,
+} from './lib/categories';
+import {
+  Reminder,
+  collectDueReminders,
+  formatTimeUntil,
+  requestNotificationPermission,
+  showReminderNotification,
+} from './lib/reminders';
+import {
+  addDaysToKey,
+  dateFromKey,
+  getLocalTimeZone,
+  getTodayKey,
+  isValidTimeZone,
+  listTimeZones,
+  toDateKey,
+} from './lib/dateKeys';
+import { SEARCH_SYNTAX_HELP, parseSearchQuery, searchEvents } from './lib/search';
+import { BulkAction, BulkFailure, EventEntry, applyBulkAction, getEntryKey } from './lib/bulkEdit';
+import { formatAttendeeList } from './lib/attendees';
+import {
+  listReferencedAttachments,
+  pruneAttachments,
+  releaseHistoryAttachments,
+  shareHistoryAttachments,
+} from './lib/attachments';
+import {
+  EventTemplate,
+  eventFromTemplate,
+  loadTemplates,
+  reassignTemplates,
+  saveTemplates,
+  templateFromEvent,
+} from './lib/templates';
+import {
+  RecurrenceScope,
+  deleteOccurrence,
+  describeRecurrence,
+  expandEvents,
+  getOccurrenceDates,
+  moveOccurrence,
+  shiftEndDate,
+  toRRule,
+  updateOccurrence,
+} from './lib/recurrence';
 
-interface Event {
-  id: string;
-  title: string;
-  startTime: string;
-  endTime: string;
-  description?: string;
-  category: "work" | "personal" | "other";
-  color?: string;
-}
+// Local Storage key for the zone events are displayed in
+const DISPLAY_TIME_ZONE_STORAGE_KEY = 'calendar_display_timezone';
+
+// Resolves to an error message for the user when the write fails
+const saveEvents = (repository: EventRepository, events: Record<string, Event[]>): Promise<string | null> =>
+  repository.save(events).then(
+    () => null,
+    (error) => {
+      console.error(`Error saving events to ${repository.name}:`, error);
+      return `Couldn't save your changes to ${repository.name}. ${describeStorageError(error)}`;
+    }
+  );
+
+// How often due reminders are looked for
+const REMINDER_CHECK_INTERVAL = 30 * 1000;
 
-// Local Storage key for events
-const EVENTS_STORAGE_KEY = 'calendar_events';
-
-// Helper functions for localStorage
-const loadEventsFromStorage = (): Record<string, Event[]> => {
-  try {
-    const storedEvents = localStorage.getItem(EVENTS_STORAGE_KEY);
-    return storedEvents ? JSON.parse(storedEvents) : {};
-  } catch (error) {
-    console.error('Error loading events from localStorage:', error);
-    return {};
+// Toast text for reminders that couldn't be shown as notifications
+const describeDueReminder = (reminder: Reminder) =>
+  `"${reminder.event.title}" starts ${formatTimeUntil(reminder.startsAt - Date.now())}, at ${reminder.event.startTime}`;
+
+// One toast for every event whose reminder came due while the calendar was closed
+const describeMissedReminders = (missed: Reminder[]) => {
+  const occurrences = [...new Map(missed.map((reminder) => [`${reminder.event.id}:${reminder.dateKey}`, reminder])).values()];
+  if (occurrences.length === 1) {
+    const [{ event, dateKey }] = occurrences;
+    return `Missed reminder: "${event.title}" started ${dateFromKey(dateKey).toLocaleDateString()} at ${event.startTime}`;
   }
+  return `Missed reminders for ${occurrences.length} events: ${occurrences.map(({ event }) => event.title).join(', ')}`;
 };
 
-const saveEventsToStorage = (events: Record<string, Event[]>) => {
-  try {
-    localStorage.setItem(EVENTS_STORAGE_KEY, JSON.stringify(events));
-  } catch (error) {
-    console.error('Error saving events to localStorage:', error);
-  }
+const loadDisplayTimeZone = (): string => {
+  const storedTimeZone = localStorage.getItem(DISPLAY_TIME_ZONE_STORAGE_KEY);
+  return storedTimeZone && isValidTimeZone(storedTimeZone) ? storedTimeZone : getLocalTimeZone();
+};
+
+// A save or delete on a recurring event waiting for the user to pick its scope
+type PendingRecurringChange =
+  | { action: 'edit'; event: Event; dateKey: string; targetKey: string; changes: Omit<Event, 'id'> }
+  | { action: 'delete'; event: Event; dateKey: string };
+
+// A save that clashes with other events, waiting for the user to resolve it. Times are
+// on the display clock.
+interface PendingConflict {
+  displayed: { dateKey: string; event: Event };
+  // The stored event being edited, if any
+  original?: { dateKey: string; event: Event };
+  conflicts: { dateKey: string; event: Event }[];
+  suggestions: TimeSlot[];
+  shortenedEndTime?: string;
+}
+
+// Undo label and toast wording for each bulk action
+const bulkActionVerbs: Record<BulkAction['type'], [string, string]> = {
+  move: ['Move', 'Moved'],
+  shift: ['Shift', 'Shifted'],
+  category: ['Recategorize', 'Recategorized'],
+  color: ['Recolor', 'Recolored'],
+  duplicate: ['Duplicate', 'Duplicated'],
+  delete: ['Delete', 'Deleted'],
 };
 
-// Helper function to check for time overlap
-const hasTimeOverlap = (event1: Event, event2: Event): boolean => {
-  const start1 = new Date(`2000-01-01T${event1.startTime}`);
-  const end1 = new Date(`2000-01-01T${event1.endTime}`);
-  const start2 = new Date(`2000-01-01T${event2.startTime}`);
-  const end2 = new Date(`2000-01-01T${event2.endTime}`);
+const withoutId = (event: Event): Omit<Event, 'id'> => {
+  const data: Partial<Event> = { ...event };
+  delete data.id;
+  return data as Omit<Event, 'id'>;
+};
 
-  return start1 < end2 && end1 > start2;
+// Latest end time on the event's start day that stops before the first clash, if the
+// event starts before every clashing event
+const getShortenedEndTime = (
+  event: Event,
+  dateKey: string,
+  conflicts: { dateKey: string; event: Event }[]
+): string | undefined => {
+  const { start } = getEventInterval(event, dateKey);
+  const clashStarts = conflicts.map((conflict) => getEventInterval(conflict.event, conflict.dateKey).start);
+  if (clashStarts.some((clashStart) => clashStart <= start)) return undefined;
+  const firstClash = new Date(Math.min(...clashStarts.map((clashStart) => clashStart.getTime())));
+  // Intervals are pinned to UTC, so the UTC date and time are the wall-clock ones
+  const [clashDateKey, clashTime] = firstClash.toISOString().slice(0, 16).split('T');
+  return clashDateKey === dateKey ? clashTime : undefined;
 };
 
 function App() {
-  const [events, setEvents] = useState<Record<string, Event[]>>(loadEventsFromStorage());
+  const [events, setEvents] = useState<Record<string, Event[]>>({});
+  // Set once stored events have loaded, so nothing is saved over them before that
+  const [repository, setRepository] = useState<EventRepository | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  // Stored records that couldn't be upgraded; kept in storage and offered for download
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedEvent, setSelectedEvent] = useState<Event | undefined>();
+  // Start date of the selected event, which differs from selectedDate for multi-day events
+  const [selectedEventDateKey, setSelectedEventDateKey] = useState<string | null>(null);
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isFindTimeOpen, setIsFindTimeOpen] = useState(false);
+  const [isCategoryManagerOpen, setIsCategoryManagerOpen] = useState(false);
+  const [categories, setCategories] = useState<Category[]>(loadCategories);
+  // Categories left out of the calendar and exports
+  const [hiddenCategories, setHiddenCategories] = useState<string[]>(loadHiddenCategories);
+  const [templates, setTemplates] = useState<EventTemplate[]>(loadTemplates);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+  // Prefilled values for the next new event, e.g. a slot picked in "Find a time"
+  const [eventDraft, setEventDraft] = useState<Partial<Omit<Event, 'id'>> | undefined>();
   const [showAddEvent, setShowAddEvent] = useState(false);
+  // Events picked with Ctrl/Cmd- or Shift-click for bulk actions, on the display clock
+  const [selectedEntries, setSelectedEntries] = useState<EventEntry[]>([]);
+  const [bulkFailures, setBulkFailures] = useState<BulkFailure[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [view, setView] = useState<CalendarView>('month');
+  const [displayTimeZone, setDisplayTimeZone] = useState(loadDisplayTimeZone);
+  const [pendingRecurringChange, setPendingRecurringChange] = useState<PendingRecurringChange | null>(null);
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const [history, setHistory] = useState<HistoryState>(loadHistory);
+  // Shown after destructive changes so they can be undone
+  const [undoToast, setUndoToast] = useState<string | null>(null);
+  // Reminders shown in the page when notifications aren't allowed, oldest first
+  const [reminderToasts, setReminderToasts] = useState<string[]>([]);
+  const tabSyncRef = useRef<TabSync | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    openEventRepository()
+      .then(async (openedRepository) => {
+        const { events: storedEvents, quarantined } = await openedRepository.load();
+        if (isCancelled) return;
+        setEvents(storedEvents);
+        setQuarantinedRecords(quarantined);
+        setRepository(openedRepository);
+        // Frees files of events that are gone for good, e.g. past the undo history
+        pruneAttachments(listReferencedAttachments(storedEvents, loadHistory())).catch((error) =>
+          console.error('Error removing unused attachments:', error)
+        );
+      })
+      .catch((error) => {
+        console.error('Error loading events:', error);
+        if (!isCancelled) setStorageError(`Couldn't load your events. ${describeStorageError(error)}`);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
 
-  // Save events to localStorage whenever they change
+  // Save events whenever they change
   useEffect(() => {
-    saveEventsToStorage(events);
-  }, [events]);
+    if (!repository) return;
+    saveEvents(repository, events).then(setStorageError);
+  }, [events, repository]);
+
+  useEffect(() => {
+    saveHistory(history);
+    shareHistoryAttachments(history);
+    // A page kept in the back/forward cache comes back with its history
+    const handlePageShow = (e: PageTransitionEvent) => {
+      if (e.persisted) shareHistoryAttachments(history);
+    };
+    window.addEventListener('pagehide', releaseHistoryAttachments);
+    window.addEventListener('pageshow', handlePageShow);
+    return () => {
+      window.removeEventListener('pagehide', releaseHistoryAttachments);
+      window.removeEventListener('pageshow', handlePageShow);
+    };
+  }, [history]);
+
+  useEffect(() => {
+    saveCategories(categories);
+  }, [categories]);
+
+  useEffect(() => {
+    saveHiddenCategories(hiddenCategories);
+  }, [hiddenCategories]);
+
+  useEffect(() => {
+    saveTemplates(templates);
+  }, [templates]);
+
+  // Checks for due reminders twice a minute. The first check after loading also picks up
+  // reminders missed while the calendar was closed.
+  useEffect(() => {
+    if (!repository) return;
+    const checkReminders = () => {
+      const { due, missed } = collectDueReminders(events);
+      const messages = due
+        .filter((reminder) => !showReminderNotification(reminder))
+        .map(describeDueReminder);
+      if (missed.length > 0) messages.push(describeMissedReminders(missed));
+      if (messages.length > 0) setReminderToasts((current) => [...current, ...messages]);
+    };
+    checkReminders();
+    const interval = setInterval(checkReminders, REMINDER_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [events, repository]);
+
+  // Changes made in other tabs are merged event by event, so neither tab's edits are lost
+  useEffect(() => {
+    const tabSync = createTabSync((changes) => {
+      setEvents((currentEvents) => applyChanges(currentEvents, changes, 'redo'));
+    });
+    tabSyncRef.current = tabSync;
+    return () => tabSync.close();
+  }, []);
+
+  // Applies a user change to the events and records it for undo. Destructive changes
+  // pass a toast message so they can be undone right away.
+  const commitEvents = (
+    newEvents: Record<string, Event[]>,
+    label: string,
+    toastMessage?: string,
+    removedCategory?: CategoryRemoval
+  ) => {
+    const changes = diffEvents(events, newEvents);
+    setHistory(recordHistory(history, { label, changes, removedCategory }));
+    setEvents(newEvents);
+    tabSyncRef.current?.broadcast(changes);
+    setUndoToast(toastMessage || null);
+  };
+
+  // Deletes a category again (redo) or puts it back with its hidden state and templates (undo)
+  const applyCategoryRemoval = (removal: CategoryRemoval, direction: 'undo' | 'redo') => {
+    const { category, index, hidden, reassignTo, templateIds } = removal;
+    if (direction === 'redo') {
+      setCategories((current) => current.filter(({ id }) => id !== category.id));
+      setHiddenCategories((current) => current.filter((id) => id !== category.id));
+      setTemplates((current) => reassignTemplates(current, category.id, reassignTo));
+      return;
+    }
+    setCategories((current) =>
+      findCategory(current, category.id) ? current : [...current.slice(0, index), category, ...current.slice(index)]
+    );
+    if (hidden) {
+      setHiddenCategories((current) => (current.includes(category.id) ? current : [...current, category.id]));
+    }
+    setTemplates((current) =>
+      current.map((template) => (templateIds.includes(template.id) ? { ...template, category: category.id } : template))
+    );
+  };
+
+  const handleUndo = () => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    setEvents(applyChanges(events, entry.changes, 'undo'));
+    if (entry.removedCategory) applyCategoryRemoval(entry.removedCategory, 'undo');
+    setHistory({ past: history.past.slice(0, -1), future: [entry, ...history.future] });
+    tabSyncRef.current?.broadcast(invertChanges(entry.changes));
+    setUndoToast(null);
+  };
+
+  const handleRedo = () => {
+    const [entry, ...future] = history.future;
+    if (!entry) return;
+    setEvents(applyChanges(events, entry.changes, 'redo'));
+    if (entry.removedCategory) applyCategoryRemoval(entry.removedCategory, 'redo');
+    setHistory({ past: [...history.past, entry], future });
+    tabSyncRef.current?.broadcast(entry.changes);
+  };
+
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+  const dismissReminderToast = useCallback(() => setReminderToasts((current) => current.slice(1)), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleRetrySave = () => {
+    if (repository) saveEvents(repository, events).then(setStorageError);
+  };
+
+  useEffect(() => {
+    localStorage.setItem(DISPLAY_TIME_ZONE_STORAGE_KEY, displayTimeZone);
+  }, [displayTimeZone]);
+
+  // Events around the visible month, with recurring series expanded into occurrences
+  // and zoned events moved to the display time zone
+  const monthEvents = useMemo(() => {
+    const rangeStart = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), -7);
+    const rangeEnd = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 7);
+    return toDisplayEvents(
+      expandEvents(events, toDateKey(rangeStart), toDateKey(rangeEnd)),
+      displayTimeZone
+    );
+  }, [events, currentMonth, displayTimeZone]);
+
+  // Events as shown on the calendar, without hidden categories
+  const visibleEvents = useMemo(
+    () => hideCategories(monthEvents, hiddenCategories),
+    [monthEvents, hiddenCategories]
+  );
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  // Matches from every date, not just the visible month
+  const searchResults = useMemo(
+    () => searchEvents(events, parsedQuery, categories, displayTimeZone, getTodayKey(displayTimeZone)),
+    [events, parsedQuery, categories, displayTimeZone]
+  );
+
+  const categoryCounts = useMemo(
+    () =>
+      countByCategory(
+        monthEvents,
+        toDateKey(new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1)),
+        toDateKey(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0))
+      ),
+    [monthEvents, currentMonth]
+  );
+
+  const toggleCategory = (id: string) => {
+    setHiddenCategories((current) =>
+      current.includes(id) ? current.filter((hidden) => hidden !== id) : [...current, id]
+    );
+  };
+
+  // Converts an event shown on a display day back to the day and times it is stored with
+  const toStoredEntry = (event: Event, displayDateKey: string) =>
+    event.timeZone
+      ? convertEventTimeZone(event, displayDateKey, displayTimeZone, event.timeZone)
+      : { dateKey: displayDateKey, event };
+
+  // Time range of a zoned event on its own clock, shown next to the display time
+  const formatStoredTimeRange = (event: Event, displayDateKey: string) => {
+    const stored = toStoredEntry(event, displayDateKey);
+    return formatEventTimeRange(stored.event, stored.dateKey);
+  };
 
   const handleMonthChange = (date: Date) => {
     setCurrentMonth(date);
+    // The day view always shows the selected day
+    if (view === 'day') {
+      setSelectedDate(date);
+      setShowAddEvent(true);
+      return;
+    }
     // If selected date is not in the new month view, clear it
     if (selectedDate && (
       selectedDate.getMonth() !== date.getMonth() ||
@@ -80,60 +477,221 @@ function App() {
     }
   };
 
+  const handleViewChange = (newView: CalendarView) => {
+    // Week and day views open on the selected day, or today when it is in the visible month
+    const today = new Date();
+    const isTodayInMonth =
+      today.getMonth() === currentMonth.getMonth() && today.getFullYear() === currentMonth.getFullYear();
+    const anchor = selectedDate || (isTodayInMonth ? today : currentMonth);
+    setView(newView);
+    setCurrentMonth(new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate()));
+    if (newView === 'day') {
+      setSelectedDate(anchor);
+      setShowAddEvent(true);
+    }
+  };
+
   const handleDaySelect = (date: Date) => {
     setSelectedDate(date);
     setShowAddEvent(true);
   };
 
-  const handleEventClick = (e: React.MouseEvent, event: Event, date: Date) => {
-    e.stopPropagation();
+  const handleAddEvent = (date: Date) => {
+    handleDaySelect(date);
+    setSelectedEvent(undefined);
+    setSelectedEventDateKey(null);
+    setIsEventModalOpen(true);
+  };
+
+  // Opens an event shown on a display day; the modal edits zoned events in their own time zone
+  const openEvent = (event: Event, date: Date, eventDateKey: string) => {
+    const stored = toStoredEntry(event, eventDateKey);
     setSelectedDate(date);
-    setSelectedEvent(event);
+    setSelectedEvent(stored.event);
+    setSelectedEventDateKey(stored.dateKey);
     setIsEventModalOpen(true);
   };
 
-  const handleSaveEvent = (eventData: Omit<Event, 'id'>) => {
-    if (!selectedDate) return;
+  const handleEventClick = (e: React.SyntheticEvent, event: Event, date: Date, eventDateKey?: string) => {
+    e.stopPropagation();
+    const { ctrlKey, metaKey, shiftKey } = e as React.MouseEvent;
+    if (ctrlKey || metaKey || shiftKey) {
+      toggleSelectedEntry({ dateKey: eventDateKey || toDateKey(date), event });
+      return;
+    }
+    openEvent(event, date, eventDateKey || toDateKey(date));
+  };
 
-    const dateKey = selectedDate.toISOString().split('T')[0];
-    const newEvents = { ...events };
-    const existingEvents = newEvents[dateKey] || [];
+  const toggleSelectedEntry = (entry: EventEntry) => {
+    const key = getEntryKey(entry);
+    setSelectedEntries((current) =>
+      current.some((selected) => getEntryKey(selected) === key)
+        ? current.filter((selected) => getEntryKey(selected) !== key)
+        : [...current, entry]
+    );
+  };
+
+  const clearSelection = () => {
+    setSelectedEntries([]);
+    setBulkFailures([]);
+  };
+
+  // Applies the action to every selected event as one undoable change. Events it would
+  // make overlap others are left alone and stay selected.
+  const handleBulkAction = (action: BulkAction) => {
+    const result = applyBulkAction(events, selectedEntries, action, displayTimeZone);
+    if (result.applied.length > 0) {
+      const [verb, pastTense] = bulkActionVerbs[action.type];
+      const summary = result.applied.length === 1 ? '1 event' : `${result.applied.length} events`;
+      commitEvents(result.events, `${verb} ${summary}`, `${pastTense} ${summary}`);
+    }
+    setSelectedEntries(result.failures.map(({ entry }) => entry));
+    setBulkFailures(result.failures);
+  };
+
+  const selectedEventKeys = selectedEntries.map(getEntryKey);
+
+  // Jumps the calendar to a search result's day and opens it
+  const handleSearchResultSelect = ({ dateKey, event }: { dateKey: string; event: Event }) => {
+    const date = dateFromKey(dateKey);
+    setCurrentMonth(date);
+    setShowAddEvent(true);
+    openEvent(event, date, dateKey);
+  };
+
+  // The event open in the modal, on the day it is stored under
+  const getEditedEntry = (dateKey: string) =>
+    selectedEvent && { dateKey: selectedEventDateKey || dateKey, event: selectedEvent };
+
+  // Checks a saved event for clashes, including recurring occurrences and multi-day
+  // events that started on earlier days, before applying it. `original` is the stored
+  // event being replaced, the one open in the modal unless given.
+  const handleSaveEvent = (
+    eventData: Omit<Event, 'id'>,
+    dateKey: string,
+    original = getEditedEntry(dateKey)
+  ) => {
+    // Asked while handling the save, since browsers only prompt in response to the user
+    if (eventData.reminders?.length) requestNotificationPermission();
 
-    // Create the new event object
     const newEvent = {
       ...eventData,
-      id: selectedEvent?.id || Math.random().toString(36).substr(2, 9),
+      id: original?.event.id || generateEventId(),
     };
 
-    // Check for time overlap with existing events
-    const hasOverlap = existingEvents.some(event => 
-      event.id !== newEvent.id && hasTimeOverlap(event, newEvent)
+    // Events in different time zones are compared on the display clock
+    const displayed = newEvent.timeZone
+      ? convertEventTimeZone(newEvent, dateKey, newEvent.timeZone, displayTimeZone)
+      : { dateKey, event: newEvent };
+    // Covers the following week too, where free slots are suggested
+    const nearbyEvents = toDisplayEvents(
+      expandEvents(
+        events,
+        addDaysToKey(displayed.dateKey, -1),
+        addDaysToKey(getEventEndDateKey(displayed.event, displayed.dateKey), 7)
+      ),
+      displayTimeZone
     );
+    const conflicts = findOverlappingEvents(nearbyEvents, displayed.event, displayed.dateKey);
+
+    if (conflicts.length > 0) {
+      setPendingConflict({
+        displayed,
+        original,
+        conflicts,
+        suggestions: suggestFreeSlots(nearbyEvents, displayed.event, displayed.dateKey),
+        shortenedEndTime: getShortenedEndTime(displayed.event, displayed.dateKey, conflicts),
+      });
+      return;
+    }
+
+    saveEvent(eventData, dateKey, original);
+  };
+
+  const saveEvent = (eventData: Omit<Event, 'id'>, dateKey: string, original?: { dateKey: string; event: Event }) => {
+    const originalDateKey = original?.dateKey || dateKey;
 
-    if (hasOverlap) {
-      alert('This time slot overlaps with an existing event. Please choose a different time.');
+    // Create the new event object
+    const newEvent = {
+      ...eventData,
+      id: original?.event.id || generateEventId(),
+    };
+
+    // Changes to a recurring series ask which occurrences they apply to
+    if (original?.event.recurrence) {
+      setPendingRecurringChange({
+        action: 'edit',
+        event: original.event,
+        dateKey: originalDateKey,
+        targetKey: dateKey,
+        changes: eventData,
+      });
+      handleCloseEventModal();
       return;
     }
 
-    if (selectedEvent) {
-      // Edit existing event
-      newEvents[dateKey] = existingEvents.map(event =>
-        event.id === selectedEvent.id ? newEvent : event
+    const newEvents = { ...events };
+
+    if (original) {
+      // Edit existing event, moving it if its start date changed
+      newEvents[originalDateKey] = (newEvents[originalDateKey] || []).filter(event =>
+        event.id !== original.event.id
       );
+      if (originalDateKey === dateKey) {
+        newEvents[dateKey] = (events[dateKey] || []).map(event =>
+          event.id === original.event.id ? newEvent : event
+        );
+      } else {
+        if (newEvents[originalDateKey].length === 0) {
+          delete newEvents[originalDateKey];
+        }
+        newEvents[dateKey] = [...(newEvents[dateKey] || []), newEvent];
+      }
     } else {
       // Create new event
-      newEvents[dateKey] = [...existingEvents, newEvent];
+      newEvents[dateKey] = [...(newEvents[dateKey] || []), newEvent];
     }
 
-    setEvents(newEvents);
-    setSelectedEvent(undefined);
-    setIsEventModalOpen(false);
+    commitEvents(newEvents, original ? 'Edit event' : 'Add event');
+    handleCloseEventModal();
+  };
+
+  // Saves the event in conflict after adjusting its display-time start and end
+  const resolveConflict = (changes: Partial<Event>, dateKey?: string) => {
+    if (!pendingConflict) return;
+    const { displayed, original } = pendingConflict;
+    const adjusted: Event = { ...displayed.event, ...changes };
+    // Shortened and moved events fit within a single day
+    if ('endDate' in changes && !changes.endDate) delete adjusted.endDate;
+    const stored = toStoredEntry(adjusted, dateKey || displayed.dateKey);
+    setPendingConflict(null);
+    saveEvent(withoutId(stored.event), stored.dateKey, original);
+  };
+
+  // An event dragged to a new time or resized on the time grid goes through the same
+  // clash checks as one saved from the modal
+  const handleEventTimeChange = (event: Event, eventDateKey: string, change: TimeChange) => {
+    const moved: Event = { ...event, startTime: change.startTime, endTime: change.endTime };
+    if (change.endDate) {
+      moved.endDate = change.endDate;
+    } else {
+      delete moved.endDate;
+    }
+    const stored = toStoredEntry(moved, change.dateKey);
+    handleSaveEvent(withoutId(stored.event), stored.dateKey, toStoredEntry(event, eventDateKey));
   };
 
-  const handleDeleteEvent = (event?: Event) => {
-    if (!event || !selectedDate) return;
+  // Deletes the event open in the modal, or the stored event starting on eventDateKey
+  const handleDeleteEvent = (event?: Event, eventDateKey?: string) => {
+    const dateKey = eventDateKey || selectedEventDateKey || (selectedDate && toDateKey(selectedDate));
+    if (!event || !dateKey) return;
+
+    if (event.recurrence) {
+      setPendingRecurringChange({ action: 'delete', event, dateKey });
+      setIsEventModalOpen(false);
+      return;
+    }
 
-    const dateKey = selectedDate.toISOString().split('T')[0];
     const newEvents = { ...events };
 
     // Remove the event from the selected date
@@ -144,61 +702,183 @@ function App() {
       delete newEvents[dateKey];
     }
 
-    setEvents(newEvents);
-    saveEventsToStorage(newEvents);
+    commitEvents(newEvents, 'Delete event', 'Event deleted');
     setIsEventModalOpen(false);
   };
 
+  // Events in a day's list are shown on the display clock
+  const handleDeleteListedEvent = (event: Event, eventDateKey: string) => {
+    const stored = toStoredEntry(event, eventDateKey);
+    handleDeleteEvent(stored.event, stored.dateKey);
+  };
+
+  // Copies an event, or a single occurrence of a series, onto the same day
+  const handleDuplicateEvent = (event: Event, eventDateKey: string) => {
+    const stored = toStoredEntry(event, eventDateKey);
+    const copy: Event = { ...stored.event, id: generateEventId() };
+    delete copy.recurrence;
+    delete copy.exceptionDates;
+    commitEvents(
+      { ...events, [stored.dateKey]: [...(events[stored.dateKey] || []), copy] },
+      'Duplicate event',
+      'Event duplicated'
+    );
+  };
+
+  const handleRecurringScopeSelect = (scope: RecurrenceScope) => {
+    if (!pendingRecurringChange) return;
+
+    const { event, dateKey } = pendingRecurringChange;
+    const isEdit = pendingRecurringChange.action === 'edit';
+    commitEvents(
+      isEdit
+        ? updateOccurrence(
+            events,
+            event.id,
+            dateKey,
+            pendingRecurringChange.changes,
+            scope,
+            generateEventId(),
+            pendingRecurringChange.targetKey
+          )
+        : deleteOccurrence(events, event.id, dateKey, scope),
+      isEdit ? 'Edit recurring event' : 'Delete recurring event',
+      isEdit ? undefined : 'Recurring event deleted'
+    );
+    setPendingRecurringChange(null);
+  };
+
   const handleEventDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
     const sourceDate = result.source.droppableId;
     const destinationDate = result.destination.droppableId;
-    const eventIndex = result.source.index;
+    // Draggable ids are "<dateKey>:<eventId>" so recurring occurrences stay unique
+    const eventId = result.draggableId.slice(sourceDate.length + 1);
 
     // If dropped in the same day and same position, do nothing
     if (sourceDate === destinationDate && result.source.index === result.destination.index) {
       return;
     }
 
+    const movedEvent = (visibleEvents[sourceDate] || []).find(event => event.id === eventId);
+    if (!movedEvent) return;
+
+    // Zoned events are stored on the days of their own time zone
+    const storedSource = toStoredEntry(movedEvent, sourceDate).dateKey;
+    const storedDestination = toStoredEntry(movedEvent, destinationDate).dateKey;
+
+    // Dragging an occurrence of a series moves only that occurrence
+    if (movedEvent.recurrence) {
+      if (sourceDate !== destinationDate) {
+        commitEvents(
+          moveOccurrence(events, movedEvent.id, storedSource, storedDestination, generateEventId()),
+          'Move event',
+          'Event moved'
+        );
+      }
+      return;
+    }
+
+    const storedEvent = (events[storedSource] || []).find(event => event.id === eventId);
+    if (!storedEvent) return;
+
     const newEvents = { ...events };
     
     // Remove event from source date
-    const [movedEvent] = newEvents[sourceDate].splice(eventIndex, 1);
-    
-    // Initialize destination date array if it doesn't exist
-    if (!newEvents[destinationDate]) {
-      newEvents[destinationDate] = [];
+    newEvents[storedSource] = newEvents[storedSource].filter(event => event.id !== eventId);
+    if (newEvents[storedSource].length === 0) {
+      delete newEvents[storedSource];
     }
 
     // Add event to destination date
-    newEvents[destinationDate].splice(result.destination.index, 0, movedEvent);
+    const destinationEvents = [...(newEvents[storedDestination] || [])];
+    destinationEvents.splice(result.destination.index, 0, shiftEndDate(storedEvent, storedSource, storedDestination));
+    newEvents[storedDestination] = destinationEvents;
 
-    // Update state and save to storage
-    setEvents(newEvents);
-    saveEventsToStorage(newEvents);
+    if (sourceDate === destinationDate) {
+      commitEvents(newEvents, 'Reorder events');
+    } else {
+      commitEvents(newEvents, 'Move event', 'Event moved');
+    }
+  };
+
+  const handleImportEvents = (accepted: { dateKey: string; event: Event }[]) => {
+    if (accepted.length === 0) return;
+    const summary = accepted.length === 1 ? '1 event' : `${accepted.length} events`;
+    commitEvents(mergeImportedEvents(events, accepted), `Import ${summary}`, `Imported ${summary}`);
   };
 
   const handleCloseEventModal = () => {
     setIsEventModalOpen(false);
     setSelectedEvent(undefined);
+    setSelectedEventDateKey(null);
+    setEventDraft(undefined);
   };
 
-  const getFilteredEvents = (dateEvents: Event[]): Event[] => {
-    if (!searchQuery) return dateEvents;
-    
-    const query = searchQuery.toLowerCase();
-    return dateEvents.filter(event => 
-      event.title.toLowerCase().includes(query) ||
-      (event.description || '').toLowerCase().includes(query)
+  // Events of a deleted category move to the one the user picked; both are one undoable change
+  const handleDeleteCategory = (id: string, reassignTo: string) => {
+    const category = findCategory(categories, id);
+    if (!category) return;
+    const removal: CategoryRemoval = {
+      category,
+      index: categories.indexOf(category),
+      hidden: hiddenCategories.includes(id),
+      reassignTo,
+      templateIds: templates.filter((template) => template.category === id).map((template) => template.id),
+    };
+    const moved = listEvents(events).filter(({ event }) => event.category === id).length;
+    const summary = moved === 1 ? '1 event' : `${moved} events`;
+    commitEvents(
+      reassignCategory(events, id, reassignTo),
+      `Delete category ${category.name}`,
+      moved > 0
+        ? `Moved ${summary} to ${getCategoryName(categories, reassignTo)}`
+        : `Deleted category ${category.name}`,
+      removal
     );
+    applyCategoryRemoval(removal, 'redo');
+  };
+
+  // Adds a template's event to the selected day in one click; clashes go through the conflict dialog
+  const handleApplyTemplate = (template: EventTemplate) => {
+    if (!selectedDate) return;
+    const dateKey = toDateKey(selectedDate);
+    handleSaveEvent(eventFromTemplate(template, dateKey), dateKey);
   };
 
+  const handleSaveTemplate = (eventData: Omit<Event, 'id'>, dateKey: string) => {
+    setTemplates((current) => [...current, templateFromEvent(eventData, dateKey)]);
+  };
+
+  // Opens a new event at a free slot, showing that day in the calendar
+  const handlePickSlot = (slot: TimeSlot) => {
+    const date = dateFromKey(slot.dateKey);
+    setIsFindTimeOpen(false);
+    setCurrentMonth(date);
+    setSelectedDate(date);
+    setShowAddEvent(true);
+    setSelectedEvent(undefined);
+    setSelectedEventDateKey(null);
+    setEventDraft({ startTime: slot.startTime, endTime: slot.endTime });
+    setIsEventModalOpen(true);
+  };
+
+  // Adds a quick-add event and shows its day; clashes go through the conflict dialog
+  const handleQuickAdd = (eventData: Omit<Event, 'id'>, dateKey: string) => {
+    const date = dateFromKey(dateKey);
+    setCurrentMonth(date);
+    setSelectedDate(date);
+    setShowAddEvent(true);
+    handleSaveEvent(eventData, dateKey);
+  };
+
+
   const getSelectedDateEvents = () => {
     if (!selectedDate) return [];
-    const dateKey = selectedDate.toISOString().split('T')[0];
-    const dateEvents = events[dateKey] || [];
-    return getFilteredEvents(dateEvents);
+    const dateKey = toDateKey(selectedDate);
+    // Includes multi-day events that started on an earlier day
+    return getEventsOnDate(visibleEvents, dateKey);
   };
 
   const formatDate = (date: Date) => {
@@ -210,50 +890,69 @@ function App() {
     });
   };
 
-  const handleExportEvents = (format: "json" | "csv") => {
-    const currentMonthEvents: Event[] = [];
+  const handleExportEvents = (format: "json" | "csv" | "ics") => {
+    const currentMonthEvents: (Event & { date: string })[] = [];
     const firstDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
     const lastDay = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+    const monthStart = toDateKey(firstDay);
+    const monthEnd = toDateKey(lastDay);
 
-    for (let d = new Date(firstDay); d <= lastDay; d.setDate(d.getDate() + 1)) {
-      const dateKey = d.toISOString().split('T')[0];
-      if (events[dateKey]) {
-        currentMonthEvents.push(...events[dateKey]);
-      }
-    }
+    // Recurring series are exported whole, with their rule, when any occurrence falls in the month.
+    // Hidden categories are left out, like on the calendar.
+    Object.entries(hideCategories(events, hiddenCategories)).forEach(([dateKey, dayEvents]) => {
+      dayEvents.forEach(event => {
+        const isInMonth = event.recurrence
+          ? getOccurrenceDates(dateKey, event.recurrence, monthStart, monthEnd, event.exceptionDates).length > 0
+          : dateKey >= monthStart && dateKey <= monthEnd;
+        if (isInMonth) {
+          currentMonthEvents.push({ date: dateKey, ...event });
+        }
+      });
+    });
+
+    const fileName = `events-${toDateKey(currentMonth).slice(0, 7)}.${format}`;
 
     if (format === "json") {
-      const jsonString = JSON.stringify(currentMonthEvents, null, 2);
-      const blob = new Blob([jsonString], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `events-${currentMonth.toISOString().slice(0, 7)}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(
+        JSON.stringify({ version: EVENT_SCHEMA_VERSION, events: currentMonthEvents }, null, 2),
+        "application/json",
+        fileName
+      );
+    } else if (format === "ics") {
+      const icsContent = eventsToICalendar(
+        currentMonthEvents.map(({ date, ...event }) => ({ dateKey: date, event })),
+        categories
+      );
+      downloadFile(icsContent, "text/calendar", fileName);
     } else {
-      const headers = ["id", "title", "startTime", "endTime", "description", "category"];
+      const headers = [
+        "version", "id", "date", "endDate", "title", "startTime", "endTime", "timeZone", "description", "category", "color",
+        "recurrence", "exceptionDates", "recurringEventId", "reminders", "attendees", "location", "links",
+      ];
       const csvContent = [
         headers.join(","),
         ...currentMonthEvents.map(event =>
           headers.map(header => {
-            const value = event[header as keyof Event] || "";
+            let value = event[header as keyof typeof event] || "";
+            if (header === "version") {
+              value = String(EVENT_SCHEMA_VERSION);
+            } else if (header === "recurrence" && event.recurrence) {
+              value = toRRule(event.recurrence, event.date);
+            } else if (header === "exceptionDates") {
+              value = (event.exceptionDates || []).join(";");
+            } else if (header === "reminders") {
+              value = (event.reminders || []).join(";");
+            } else if (header === "attendees") {
+              value = formatAttendeeList(event.attendees);
+            } else if (header === "links") {
+              value = (event.links || []).join(" ");
+            }
             return `"${value.toString().replace(/"/g, '""')}"`
           }).join(",")
         )
       ].join("\n");
 
-      const blob = new Blob([csvContent], { type: "text/csv" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `events-${currentMonth.toISOString().slice(0, 7)}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadFile(csvContent, "text/csv", fileName);
     }
   };
 
@@ -266,21 +965,71 @@ function App() {
             Event Calendar
           </h1>
           <div className="flex items-center gap-6">
+            <div className="flex">
+              <Button
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                aria-label="Undo"
+                title={history.past.length > 0 ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                className="h-12 bg-white text-[#2A2A2A] border-4 border-[#2A2A2A] rounded-none disabled:opacity-40"
+              >
+                <Undo2 className="h-5 w-5" />
+              </Button>
+              <Button
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                aria-label="Redo"
+                title={history.future.length > 0 ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="h-12 -ml-1 bg-white text-[#2A2A2A] border-4 border-[#2A2A2A] rounded-none disabled:opacity-40"
+              >
+                <Redo2 className="h-5 w-5" />
+              </Button>
+            </div>
             <div className="relative">
               <Search className="w-5 h-5 absolute left-4 top-1/2 transform -translate-y-1/2 text-[#2A2A2A]" />
               <Input
                 type="text"
                 placeholder="Search events..."
+                aria-label="Search events"
+                title={SEARCH_SYNTAX_HELP}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-12 w-72 h-12 bg-white border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all"
               />
             </div>
+            <QuickAddBar
+              categories={categories}
+              todayKey={getTodayKey(displayTimeZone)}
+              onAdd={handleQuickAdd}
+            />
+            <Button
+              onClick={() => setIsFindTimeOpen(true)}
+              className="h-12 bg-[#98FB98] text-[#2A2A2A] border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all font-mono"
+            >
+              <CalendarSearch className="h-5 w-5 mr-2" />
+              Find a time
+            </Button>
+            <Select value={displayTimeZone} onValueChange={setDisplayTimeZone}>
+              <SelectTrigger
+                aria-label="Display time zone"
+                className="h-12 w-56 bg-white text-[#2A2A2A] border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono"
+              >
+                <Globe className="h-5 w-5 mr-2 flex-shrink-0" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-72">
+                {listTimeZones().map((zone) => (
+                  <SelectItem key={zone} value={zone} className="hover:bg-[#F0F8FF]">
+                    {zone.replace(/_/g, ' ')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button className="h-12 bg-[#FFE4E1] text-[#2A2A2A] border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all">
                   <Download className="h-5 w-5 mr-2" />
-                  Export
+                  Import / Export
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent className="bg-white border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]">
@@ -296,30 +1045,132 @@ function App() {
                 >
                   Export as CSV
                 </DropdownMenuItem>
+                <DropdownMenuItem 
+                  onClick={() => handleExportEvents("ics")}
+                  className="hover:bg-[#F0F8FF] transition-colors"
+                >
+                  Export as iCalendar (.ics)
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem 
+                  onClick={() => setIsImportModalOpen(true)}
+                  className="hover:bg-[#F0F8FF] transition-colors"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import from file...
+                </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
         </div>
 
+        {storageError && (
+          <div
+            role="alert"
+            className="flex items-center gap-4 mb-6 p-4 bg-[#FFE4E1] text-[#2A2A2A] border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono"
+          >
+            <AlertTriangle className="w-5 h-5 flex-shrink-0 text-[#FF6B6B]" />
+            <p className="flex-1 text-sm font-bold">{storageError}</p>
+            {repository && (
+              <Button
+                onClick={handleRetrySave}
+                className="bg-white text-[#2A2A2A] border-2 border-[#2A2A2A] rounded-none font-mono hover:bg-[#F0F8FF]"
+              >
+                Retry
+              </Button>
+            )}
+            <Button
+              onClick={() => setStorageError(null)}
+              className="bg-white text-[#2A2A2A] border-2 border-[#2A2A2A] rounded-none font-mono hover:bg-[#F0F8FF]"
+            >
+              Dismiss
+            </Button>
+          </div>
+        )}
+
+        {quarantinedRecords.length > 0 && (
+          <div
+            role="status"
+            className="flex items-center gap-4 mb-6 p-4 bg-[#FFF8DC] text-[#2A2A2A] border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono"
+          >
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            <p className="flex-1 text-sm font-bold">
+              {quarantinedRecords.length === 1
+                ? '1 saved event could not be read and was set aside.'
+                : `${quarantinedRecords.length} saved events could not be read and were set aside.`}
+            </p>
+            <Button
+              onClick={() =>
+                downloadFile(JSON.stringify(quarantinedRecords, null, 2), 'application/json', 'quarantined-events.json')
+              }
+              className="bg-white text-[#2A2A2A] border-2 border-[#2A2A2A] rounded-none font-mono hover:bg-[#F0F8FF]"
+            >
+              Download
+            </Button>
+            <Button
+              onClick={() => setQuarantinedRecords([])}
+              className="bg-white text-[#2A2A2A] border-2 border-[#2A2A2A] rounded-none font-mono hover:bg-[#F0F8FF]"
+            >
+              Dismiss
+            </Button>
+          </div>
+        )}
+
+        {selectedEntries.length > 0 && (
+          <BulkActionBar
+            count={selectedEntries.length}
+            categories={categories}
+            failures={bulkFailures}
+            onApply={handleBulkAction}
+            onClear={clearSelection}
+            onDismissFailures={() => setBulkFailures([])}
+          />
+        )}
+
+        <CategoryLegend
+          categories={categories}
+          hiddenCategories={hiddenCategories}
+          counts={categoryCounts}
+          onToggle={toggleCategory}
+          onManage={() => setIsCategoryManagerOpen(true)}
+        />
+
         {/* Main Content */}
         <div className="flex gap-8 flex-1 overflow-hidden">
           {/* Calendar Section */}
           <div className="flex-1 min-w-[800px] bg-white border-4 border-[#2A2A2A] rounded-none shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] p-6">
             <Calendar
-              events={events}
+              events={visibleEvents}
+              categories={categories}
               onDaySelect={handleDaySelect}
+              onAddEvent={handleAddEvent}
               onEventClick={handleEventClick}
+              onEventDelete={handleDeleteListedEvent}
+              selectedEventKeys={selectedEventKeys}
+              onEventDuplicate={handleDuplicateEvent}
               selectedDate={selectedDate}
               onMonthChange={handleMonthChange}
               currentMonth={currentMonth}
-              searchQuery={searchQuery}
+              searchQuery={parsedQuery}
               onEventDragEnd={handleEventDragEnd}
+              onEventTimeChange={handleEventTimeChange}
+              view={view}
+              onViewChange={handleViewChange}
+              displayTimeZone={displayTimeZone}
             />
           </div>
 
           {/* Events Sidebar */}
           <div className="w-[420px] bg-white border-4 border-[#2A2A2A] rounded-none shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] flex flex-col shrink-0">
-            {!selectedDate ? (
+            {searchQuery.trim() ? (
+              <SearchResults
+                results={searchResults}
+                categories={categories}
+                errors={parsedQuery.errors}
+                onSelect={handleSearchResultSelect}
+                onClear={() => setSearchQuery('')}
+              />
+            ) : !selectedDate ? (
               <div className="h-full flex items-center justify-center text-[#2A2A2A]">
                 <div className="p-6 flex flex-col justify-center items-center text-center">
                 <img src="/calendar.png" width="64" height="64" />
@@ -346,30 +1197,109 @@ function App() {
                       Add Event
                     </Button>
                   )}
+                  <div className="mb-6 p-3 bg-[#FFF8DC] border-4 border-[#2A2A2A] font-mono text-sm">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-bold flex items-center">
+                        <LayoutTemplate className="w-4 h-4 mr-2" />
+                        Templates
+                      </h3>
+                      <button
+                        type="button"
+                        onClick={() => setIsTemplateManagerOpen(true)}
+                        className="text-xs underline hover:no-underline"
+                      >
+                        Manage
+                      </button>
+                    </div>
+                    {templates.length > 0 ? (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {templates.map((template) => (
+                          <button
+                            key={template.id}
+                            type="button"
+                            onClick={() => handleApplyTemplate(template)}
+                            title={`Add "${template.title}" at ${template.startTime} on this day`}
+                            className="flex items-center gap-2 px-2 py-1 bg-white border-2 border-[#2A2A2A] shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all"
+                          >
+                            <span
+                              aria-hidden="true"
+                              className="w-3 h-3 border border-[#2A2A2A]"
+                              style={{ backgroundColor: template.color || findCategory(categories, template.category)?.color }}
+                            />
+                            {template.name}
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-xs">Save events you create often as templates to add them here in one click.</p>
+                    )}
+                  </div>
                   <div className="space-y-4">
                     {getSelectedDateEvents()
-                      .sort((a, b) => a.startTime.localeCompare(b.startTime))
-                      .map((event) => (
-                        <button
+                      .sort((a, b) =>
+                        a.dateKey.localeCompare(b.dateKey) || a.event.startTime.localeCompare(b.event.startTime)
+                      )
+                      .map(({ dateKey, event }) => (
+                        // Links and files sit outside the card's button so they can be opened on their own
+                        <div
                           key={event.id}
-                          onClick={(e) => handleEventClick(e, event, selectedDate)}
-                          className="w-full text-left bg-white border-4 border-[#2A2A2A] rounded-none p-4 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all"
+                          className={`bg-white border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all ${
+                            selectedEventKeys.includes(`${dateKey}:${event.id}`) ? 'ring-4 ring-[#FF6B6B]' : ''
+                          }`}
                         >
-                          <h3 className="font-bold text-[#2A2A2A] font-mono">
-                            {event.title}
-                          </h3>
-                          <div className="mt-2 text-sm text-[#2A2A2A] flex items-center font-mono">
-                            <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
-                            <span>
-                              {event.startTime} - {event.endTime}
-                            </span>
-                          </div>
-                          {event.description && (
-                            <p className="mt-2 text-sm text-[#2A2A2A] font-mono">
-                              {event.description}
-                            </p>
+                          <button
+                            onClick={(e) => handleEventClick(e, event, selectedDate, dateKey)}
+                            className="w-full text-left p-4"
+                          >
+                            <h3 className="font-bold text-[#2A2A2A] font-mono">
+                              {event.title}
+                            </h3>
+                            <div className="mt-2 text-sm text-[#2A2A2A] flex items-center font-mono">
+                              <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+                              <span>
+                                {formatEventTimeRange(event, dateKey)}
+                              </span>
+                            </div>
+                            {event.timeZone && event.timeZone !== displayTimeZone && (
+                              <div className="mt-2 text-sm text-[#2A2A2A] flex items-center font-mono">
+                                <Globe className="w-4 h-4 mr-2 flex-shrink-0" />
+                                <span>
+                                  {formatStoredTimeRange(event, dateKey)}{' '}
+                                  {event.timeZone.replace(/_/g, ' ')}
+                                </span>
+                              </div>
+                            )}
+                            {event.recurrence && (
+                              <div className="mt-2 text-sm text-[#2A2A2A] flex items-center font-mono">
+                                <Repeat className="w-4 h-4 mr-2 flex-shrink-0" />
+                                <span>
+                                  {describeRecurrence(event.recurrence, findEventDateKey(events, event.id) || '')}
+                                </span>
+                              </div>
+                            )}
+                            {event.location && (
+                              <div className="mt-2 text-sm text-[#2A2A2A] flex items-center font-mono">
+                                <MapPin className="w-4 h-4 mr-2 flex-shrink-0" />
+                                <span className="truncate">{event.location}</span>
+                              </div>
+                            )}
+                            {event.attendees && event.attendees.length > 0 && (
+                              <div className="mt-2">
+                                <AttendeeAvatars attendees={event.attendees} />
+                              </div>
+                            )}
+                            {event.description && (
+                              <p className="mt-2 text-sm text-[#2A2A2A] font-mono">
+                                {event.description}
+                              </p>
+                            )}
+                          </button>
+                          {(event.links || event.attachments) && (
+                            <div className="px-4 pb-4 -mt-2">
+                              <EventResources links={event.links || []} attachments={event.attachments || []} />
+                            </div>
                           )}
-                        </button>
+                        </div>
                       ))}
                   </div>
                 </div>
@@ -385,7 +1315,85 @@ function App() {
         onSave={handleSaveEvent}
         onDelete={handleDeleteEvent}
         event={selectedEvent}
+        categories={categories}
+        draft={eventDraft}
         selectedDate={selectedDate}
+        dateKey={selectedEventDateKey || (selectedDate && toDateKey(selectedDate))}
+        templates={templates}
+        onSaveTemplate={handleSaveTemplate}
+      />
+
+      <RecurrenceScopeDialog
+        isOpen={pendingRecurringChange !== null}
+        action={pendingRecurringChange?.action || 'edit'}
+        onSelect={handleRecurringScopeSelect}
+        onClose={() => setPendingRecurringChange(null)}
+      />
+
+      <ConflictDialog
+        isOpen={pendingConflict !== null}
+        conflicts={pendingConflict?.conflicts || []}
+        categories={categories}
+        suggestions={pendingConflict?.suggestions || []}
+        shortenedEndTime={pendingConflict?.shortenedEndTime}
+        onSaveAnyway={() => resolveConflict({})}
+        onShorten={() => resolveConflict({ endTime: pendingConflict?.shortenedEndTime, endDate: undefined })}
+        onMove={(slot) =>
+          resolveConflict({ startTime: slot.startTime, endTime: slot.endTime, endDate: undefined }, slot.dateKey)
+        }
+        onClose={() => setPendingConflict(null)}
+      />
+
+      {undoToast && (
+        <Toast
+          message={undoToast}
+          actionLabel="Undo"
+          onAction={handleUndo}
+          onDismiss={dismissUndoToast}
+        />
+      )}
+
+      {reminderToasts.length > 0 && (
+        <Toast
+          message={reminderToasts[0]}
+          onDismiss={dismissReminderToast}
+          duration={30000}
+          placement="top"
+        />
+      )}
+
+      <FindTimeModal
+        isOpen={isFindTimeOpen}
+        onClose={() => setIsFindTimeOpen(false)}
+        events={events}
+        displayTimeZone={displayTimeZone}
+        categories={categories}
+        onPickSlot={handlePickSlot}
+      />
+
+      <CategoryManagerModal
+        isOpen={isCategoryManagerOpen}
+        onClose={() => setIsCategoryManagerOpen(false)}
+        categories={categories}
+        events={events}
+        onChange={setCategories}
+        onDelete={handleDeleteCategory}
+      />
+
+      <TemplateManagerModal
+        isOpen={isTemplateManagerOpen}
+        onClose={() => setIsTemplateManagerOpen(false)}
+        templates={templates}
+        categories={categories}
+        onChange={setTemplates}
+      />
+
+      <ImportEventsModal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        events={events}
+        categories={categories}
+        onImport={handleImportEvents}
       />
     </div>
   );
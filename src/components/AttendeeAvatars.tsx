@@ -0,0 +1,55 @@
+import React from 'react';
+import { Attendee, RsvpStatus } from '../lib/eventSchema';
+import { RSVP_LABELS, getInitials } from '../lib/attendees';
+
+interface AttendeeAvatarsProps {
+  attendees: Attendee[];
+  // Avatars shown before the rest are summed up as "+N"
+  max?: number;
+}
+
+const STATUS_STYLES: Record<RsvpStatus, string> = {
+  accepted: 'bg-[#98FB98] border-solid',
+  tentative: 'bg-[#FFF8DC] border-dashed',
+  declined: 'bg-[#FF6B6B] border-solid line-through',
+  pending: 'bg-white border-dashed',
+};
+
+const describeAttendee = ({ name, email, role, status }: Attendee) =>
+  `${name} <${email}>${role ? `, ${role}` : ''}: ${RSVP_LABELS[status]}`;
+
+const AttendeeAvatars: React.FC<AttendeeAvatarsProps> = ({ attendees, max = 5 }) => {
+  const shown = attendees.slice(0, max);
+  const hidden = attendees.slice(max);
+  const accepted = attendees.filter(({ status }) => status === 'accepted').length;
+
+  return (
+    <div className="flex items-center gap-2">
+      <ul className="flex -space-x-1" aria-label="Attendees">
+        {shown.map((attendee) => (
+          <li
+            key={attendee.email}
+            title={describeAttendee(attendee)}
+            className={`w-7 h-7 flex items-center justify-center border-2 border-[#2A2A2A] text-[10px] font-bold font-mono text-[#2A2A2A] ${STATUS_STYLES[attendee.status]}`}
+          >
+            <span aria-hidden="true">{getInitials(attendee.name)}</span>
+            <span className="sr-only">{describeAttendee(attendee)}</span>
+          </li>
+        ))}
+        {hidden.length > 0 && (
+          <li
+            title={hidden.map(describeAttendee).join('\n')}
+            className="w-7 h-7 flex items-center justify-center border-2 border-[#2A2A2A] bg-[#F0F8FF] text-[10px] font-bold font-mono text-[#2A2A2A]"
+          >
+            +{hidden.length}
+          </li>
+        )}
+      </ul>
+      <span className="text-xs font-mono text-[#2A2A2A]">
+        {accepted}/{attendees.length} accepted
+      </span>
+    </div>
+  );
+};
+
+export default AttendeeAvatars;
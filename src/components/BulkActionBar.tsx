@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { ArrowRight, CalendarClock, Copy, Trash2, X } from 'lucide-react';
+import { Button } from './form/Buttons';
+import { Input } from './form/InputBox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './form/Select';
+import { BulkAction, BulkFailure, getEntryKey } from '../lib/bulkEdit';
+import { Category } from '../lib/categories';
+import { formatEventTimeRange } from '../lib/events';
+import { dateFromKey } from '../lib/dateKeys';
+
+interface BulkActionBarProps {
+  count: number;
+  categories: Category[];
+  // Events the last action left unchanged because they would overlap others
+  failures: BulkFailure[];
+  onApply: (action: BulkAction) => void;
+  onClear: () => void;
+  onDismissFailures: () => void;
+}
+
+const formatDay = (dateKey: string) =>
+  dateFromKey(dateKey).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  count,
+  categories,
+  failures,
+  onApply,
+  onClear,
+  onDismissFailures,
+}) => {
+  const [moveTo, setMoveTo] = useState('');
+  const [shiftDays, setShiftDays] = useState('1');
+  const [color, setColor] = useState('#87CEFA');
+
+  const days = Number(shiftDays);
+  const controlClass = 'h-8 rounded-none border-2 border-[#2A2A2A] shadow-none font-mono text-sm';
+
+  return (
+    <div
+      role="region"
+      aria-label="Selected events"
+      className="mb-6 p-3 bg-[#FFF8DC] border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono text-sm space-y-3"
+    >
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-bold" aria-live="polite">
+          {count === 1 ? '1 event selected' : `${count} events selected`}
+        </span>
+
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (moveTo) onApply({ type: 'move', dateKey: moveTo });
+          }}
+        >
+          <Input
+            type="date"
+            aria-label="Move to date"
+            value={moveTo}
+            onChange={(e) => setMoveTo(e.target.value)}
+            className={`${controlClass} w-40`}
+          />
+          <Button type="submit" disabled={!moveTo} className={`${controlClass} bg-white`}>
+            <ArrowRight className="w-4 h-4 mr-1" />
+            Move
+          </Button>
+        </form>
+
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (Number.isInteger(days) && days !== 0) onApply({ type: 'shift', days });
+          }}
+        >
+          <Input
+            type="number"
+            aria-label="Days to shift by"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(e.target.value)}
+            className={`${controlClass} w-20`}
+          />
+          <Button
+            type="submit"
+            disabled={!Number.isInteger(days) || days === 0}
+            className={`${controlClass} bg-white`}
+          >
+            <CalendarClock className="w-4 h-4 mr-1" />
+            Shift days
+          </Button>
+        </form>
+
+        <Select value="" onValueChange={(category) => onApply({ type: 'category', category })}>
+          <SelectTrigger aria-label="Change category" className={`${controlClass} w-40 bg-white`}>
+            <SelectValue placeholder="Category…" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={category.id} className="hover:bg-[#F0F8FF]">
+                <span
+                  className="inline-block w-3 h-3 mr-2 border border-[#2A2A2A]"
+                  style={{ backgroundColor: category.color }}
+                />
+                {category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1">
+          <Input
+            type="color"
+            aria-label="Color"
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+            className={`${controlClass} w-10 p-0.5 cursor-pointer`}
+          />
+          <Button type="button" onClick={() => onApply({ type: 'color', color })} className={`${controlClass} bg-white`}>
+            Set color
+          </Button>
+          <Button
+            type="button"
+            onClick={() => onApply({ type: 'color' })}
+            title="Use each event's category color"
+            className={`${controlClass} bg-white`}
+          >
+            Category color
+          </Button>
+        </div>
+
+        <Button type="button" onClick={() => onApply({ type: 'duplicate' })} className={`${controlClass} bg-[#98FB98]`}>
+          <Copy className="w-4 h-4 mr-1" />
+          Duplicate
+        </Button>
+        <Button
+          type="button"
+          onClick={() => onApply({ type: 'delete' })}
+          className={`${controlClass} bg-[#FF6B6B] text-white`}
+        >
+          <Trash2 className="w-4 h-4 mr-1" />
+          Delete
+        </Button>
+
+        <button type="button" onClick={onClear} aria-label="Clear selection" className="ml-auto p-1 hover:bg-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {failures.length > 0 && (
+        <div role="alert" className="pt-3 border-t-2 border-dashed border-[#2A2A2A]">
+          <div className="flex items-center justify-between">
+            <p className="font-bold">
+              {failures.length === 1
+                ? "1 event wasn't changed because it would overlap others:"
+                : `${failures.length} events weren't changed because they would overlap others:`}
+            </p>
+            <button type="button" onClick={onDismissFailures} aria-label="Dismiss" className="p-1 hover:bg-white">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {failures.map(({ entry, conflicts }) => (
+              <li key={getEntryKey(entry)}>
+                <span className="font-bold">{entry.event.title}</span> ({formatDay(entry.dateKey)},{' '}
+                {formatEventTimeRange(entry.event, entry.dateKey)}) clashes with{' '}
+                {conflicts.map((conflict) => conflict.event.title).join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
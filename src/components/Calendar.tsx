@@ -1,40 +1,80 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button } from './form/Buttons';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
 import { cn } from '../lib/utils';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { Event, formatEventTimeRange, getEventsOnDate, isMultiDayEvent } from '../lib/events';
+import { SpanningBar, layoutSpanningBars } from '../lib/eventLayout';
+import TimeGridView, { TimeChange } from './TimeGridView';
+import EventListModal, { LIST_DROPPABLE_PREFIX } from './EventListModal';
+import { addDaysToKey, dateFromKey, getTodayKey, toDateKey } from '../lib/dateKeys';
+import { Category, getEventColor } from '../lib/categories';
+import { SearchQuery, filterEvents } from '../lib/search';
 
-interface Event {
-  id: string;
-  title: string;
-  startTime: string;
-  endTime: string;
-  description?: string;
-  category: "work" | "personal" | "other";
-  color?: string;
-}
+// Height of one lane of multi-day bars, and where the first lane starts below the day number
+const BAR_HEIGHT = 24;
+const BAR_TOP_OFFSET = 48;
+
+export type CalendarView = 'month' | 'week' | 'day';
+
+// Same day of another month, clamped to that month's last day
+const shiftMonth = (date: Date, months: number) => {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+};
+
+const viewOptions: { view: CalendarView; label: string }[] = [
+  { view: 'month', label: 'Month' },
+  { view: 'week', label: 'Week' },
+  { view: 'day', label: 'Day' },
+];
 
 interface CalendarProps {
   events: Record<string, Event[]>;
+  // Give events without a color of their own their category's color
+  categories: Category[];
   onDaySelect: (date: Date) => void;
-  onEventClick: (e: React.MouseEvent, event: Event, date: Date) => void;
+  // Opens a new event on the day, from the `n` key
+  onAddEvent: (date: Date) => void;
+  onEventClick: (e: React.SyntheticEvent, event: Event, date: Date, eventDateKey?: string) => void;
+  // Actions from the list of a day's events behind "+N more"
+  onEventDelete: (event: Event, eventDateKey: string) => void;
+  onEventDuplicate: (event: Event, eventDateKey: string) => void;
+  // "<dateKey>:<eventId>" of events picked for bulk actions
+  selectedEventKeys: string[];
   selectedDate: Date | null;
   onMonthChange: (date: Date) => void;
+  // Month being shown, or the day the week/day view is anchored on
   currentMonth: Date;
-  searchQuery: string;
+  searchQuery: SearchQuery;
   onEventDragEnd: (result: DropResult) => void;
+  // An event dragged to a new time, or resized, in the week and day views
+  onEventTimeChange: (event: Event, eventDateKey: string, change: TimeChange) => void;
+  view: CalendarView;
+  onViewChange: (view: CalendarView) => void;
+  // Zone that decides which day is today
+  displayTimeZone: string;
 }
 
 
 const Calendar: React.FC<CalendarProps> = ({
   events,
+  categories,
   onDaySelect,
+  onAddEvent,
   onEventClick,
+  onEventDelete,
+  onEventDuplicate,
+  selectedEventKeys,
   selectedDate,
   onMonthChange,
   currentMonth,
   searchQuery,
-  onEventDragEnd
+  onEventDragEnd,
+  onEventTimeChange,
+  view,
+  onViewChange,
+  displayTimeZone
 }) => {
   const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
@@ -60,27 +100,48 @@ const Calendar: React.FC<CalendarProps> = ({
     return days;
   };
 
+  const getDaysInWeek = (date: Date) => {
+    const sunday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+    return Array.from(
+      { length: 7 },
+      (_, index) => new Date(sunday.getFullYear(), sunday.getMonth(), sunday.getDate() + index)
+    );
+  };
+
+  // Previous/Next step by a month, a week or a day depending on the view
+  const stepBy = (direction: number) => {
+    if (view === 'month') {
+      return new Date(currentMonth.getFullYear(), currentMonth.getMonth() + direction, 1);
+    }
+    const days = view === 'week' ? 7 : 1;
+    return new Date(currentMonth.getFullYear(), currentMonth.getMonth(), currentMonth.getDate() + direction * days);
+  };
+
   const handlePrevMonth = () => {
-    const newDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1);
-    onMonthChange(newDate);
+    onMonthChange(stepBy(-1));
   };
 
   const handleNextMonth = () => {
-    const newDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1);
-    onMonthChange(newDate);
+    onMonthChange(stepBy(1));
+  };
+
+  const getTitle = () => {
+    if (view === 'day') {
+      return currentMonth.toLocaleDateString('default', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    }
+    if (view === 'week') {
+      const weekDates = getDaysInWeek(currentMonth);
+      const first = weekDates[0].toLocaleDateString('default', { month: 'short', day: 'numeric' });
+      const last = weekDates[6].toLocaleDateString('default', { month: 'short', day: 'numeric', year: 'numeric' });
+      return `${first} – ${last}`;
+    }
+    return currentMonth.toLocaleString('default', { month: 'long', year: 'numeric' });
   };
 
   const isCurrentMonth = (date: Date) =>
     date.getMonth() === currentMonth.getMonth();
 
-  const isToday = (date: Date) => {
-    const today = new Date();
-    return (
-      date.getDate() === today.getDate() &&
-      date.getMonth() === today.getMonth() &&
-      date.getFullYear() === today.getFullYear()
-    );
-  };
+  const isToday = (date: Date) => toDateKey(date) === getTodayKey(displayTimeZone);
 
   const isWeekend = (date: Date) => {
     return date.getDay() === 0 || date.getDay() === 6;
@@ -93,28 +154,135 @@ const Calendar: React.FC<CalendarProps> = ({
       date.getFullYear() === selectedDate.getFullYear();
   };
 
-  const getFilteredEvents = (dateEvents: Event[]): Event[] => {
-    if (!searchQuery) return dateEvents;
-    
-    const query = searchQuery.toLowerCase();
-    return dateEvents.filter(event => 
-      event.title.toLowerCase().includes(query) ||
-      (event.description || '').toLowerCase().includes(query)
-    );
+  const days = getDaysInMonth(currentMonth);
+  const weeks = Array.from({ length: days.length / 7 }, (_, index) => days.slice(index * 7, index * 7 + 7));
+
+  const filteredEvents = filterEvents(events, searchQuery, categories);
+
+  // Roving focus: one day cell at a time is in the tab order, and arrow keys move it
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  // Set when the keyboard moves focus, so the new cell takes focus once it has rendered
+  const shouldFocusRef = useRef(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // Day whose full list of events is open
+  const [listDateKey, setListDateKey] = useState<string | null>(null);
+
+  const dayKeys = days.map((date) => toDateKey(date));
+  const monthPrefix = toDateKey(currentMonth).slice(0, 7);
+  const isInMonth = (dateKey: string | null) => Boolean(dateKey && dateKey.startsWith(monthPrefix));
+  const selectedKey = selectedDate && toDateKey(selectedDate);
+  const todayKey = getTodayKey(displayTimeZone);
+  // A focused day scrolled out of view hands over to the selected day, today or the 1st
+  const activeKey =
+    focusedKey && dayKeys.includes(focusedKey)
+      ? focusedKey
+      : isInMonth(selectedKey)
+        ? selectedKey!
+        : isInMonth(todayKey)
+          ? todayKey
+          : `${monthPrefix}-01`;
+
+  useEffect(() => {
+    if (!shouldFocusRef.current) return;
+    shouldFocusRef.current = false;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date-key="${activeKey}"]`)?.focus();
+  }, [activeKey]);
+
+  const moveFocus = (dateKey: string, changeMonth: boolean) => {
+    shouldFocusRef.current = true;
+    setFocusedKey(dateKey);
+    if (changeMonth || !dayKeys.includes(dateKey)) {
+      const date = dateFromKey(dateKey);
+      onMonthChange(new Date(date.getFullYear(), date.getMonth(), 1));
+    }
   };
- 
 
-  const days = getDaysInMonth(currentMonth);
+  const handleCellKeyDown = (e: React.KeyboardEvent, date: Date, dateKey: string) => {
+    // Keys pressed on an event inside the cell belong to the event
+    if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    const moves: Record<string, () => string> = {
+      ArrowLeft: () => addDaysToKey(dateKey, -1),
+      ArrowRight: () => addDaysToKey(dateKey, 1),
+      ArrowUp: () => addDaysToKey(dateKey, -7),
+      ArrowDown: () => addDaysToKey(dateKey, 7),
+      Home: () => addDaysToKey(dateKey, -date.getDay()),
+      End: () => addDaysToKey(dateKey, 6 - date.getDay()),
+      PageUp: () => toDateKey(shiftMonth(date, -1)),
+      PageDown: () => toDateKey(shiftMonth(date, 1)),
+    };
+
+    if (moves[e.key]) {
+      e.preventDefault();
+      moveFocus(moves[e.key](), e.key === 'PageUp' || e.key === 'PageDown');
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      onDaySelect(date);
+    } else if (e.key === 'n') {
+      e.preventDefault();
+      onAddEvent(date);
+    }
+  };
+
+  const handleEventKeyDown = (e: React.KeyboardEvent, event: Event, date: Date) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      e.stopPropagation();
+      onEventClick(e, event, date);
+    }
+  };
+
+  const describeDay = (date: Date, eventCount: number) =>
+    [
+      date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }),
+      eventCount === 0 ? 'no events' : eventCount === 1 ? '1 event' : `${eventCount} events`,
+      isToday(date) && 'today',
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+  // Bars for events that start before the visible grid open on their own start date
+  const getDateForKey = (dateKey: string) =>
+    days.find((date) => toDateKey(date) === dateKey) || dateFromKey(dateKey);
+
+  // Events dragged out of a day's list move just like ones dragged from the day cell
+  const handleDragEnd = (result: DropResult) => {
+    if (!result.source.droppableId.startsWith(LIST_DROPPABLE_PREFIX)) {
+      onEventDragEnd(result);
+      return;
+    }
+    const sourceKey = result.source.droppableId.slice(LIST_DROPPABLE_PREFIX.length);
+    onEventDragEnd({
+      ...result,
+      source: { ...result.source, droppableId: sourceKey },
+      draggableId: result.draggableId.slice(LIST_DROPPABLE_PREFIX.length),
+    });
+  };
 
   return (
-    <DragDropContext onDragEnd={onEventDragEnd}>
+    <DragDropContext onDragEnd={handleDragEnd}>
       <div className="h-full flex flex-col max-h-screen overflow-hidden">
         {/* Header Section */}
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-2xl font-black text-[#2A2A2A] font-mono">
-            {currentMonth.toLocaleString('default', { month: 'long', year: 'numeric' })}
+            {getTitle()}
           </h2>
           <div className="flex gap-4">
+            <div className="flex" role="group" aria-label="Calendar view">
+              {viewOptions.map((option) => (
+                <button
+                  key={option.view}
+                  onClick={() => onViewChange(option.view)}
+                  aria-pressed={view === option.view}
+                  className={cn(
+                    "px-4 border-4 border-[#2A2A2A] -ml-1 first:ml-0 font-mono font-bold text-sm transition-colors",
+                    view === option.view ? "bg-[#2A2A2A] text-white" : "bg-white text-[#2A2A2A] hover:bg-[#F0F8FF]"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
             <Button
               onClick={handlePrevMonth}
               className="bg-[#FFE4E1] text-[#2A2A2A] border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all font-mono"
@@ -132,114 +300,230 @@ const Calendar: React.FC<CalendarProps> = ({
           </div>
         </div>
 
-        {/* Weekday Headers */}
-        <div className="grid grid-cols-7 gap-2 mb-2">
-          {weekDays.map((day, index) => (
-            <div
-              key={day}
-              className={cn(
-                "text-center py-2 font-bold text-sm font-mono border-4 border-[#2A2A2A] bg-[#F0F8FF]",
-                index === 0 || index === 6 ? "text-[#FF6B6B]" : "text-[#2A2A2A]"
-              )}
-            >
-              {day}
-            </div>
-          ))}
-        </div>
+        {view !== 'month' ? (
+          <TimeGridView
+            days={view === 'week' ? getDaysInWeek(currentMonth) : [currentMonth]}
+            events={filteredEvents}
+            categories={categories}
+            onDaySelect={onDaySelect}
+            onEventClick={onEventClick}
+            onEventTimeChange={onEventTimeChange}
+            selectedEventKeys={selectedEventKeys}
+            isToday={isToday}
+            isSelected={isSelected}
+          />
+        ) : (
+          <div ref={gridRef} role="grid" aria-label={getTitle()} className="flex flex-col flex-1 min-h-0">
+          {/* Weekday Headers */}
+          <div role="row" className="grid grid-cols-7 gap-2 mb-2">
+            {weekDays.map((day, index) => (
+              <div
+                key={day}
+                role="columnheader"
+                aria-label={new Date(2024, 0, 7 + index).toLocaleDateString('en-US', { weekday: 'long' })}
+                className={cn(
+                  "text-center py-2 font-bold text-sm font-mono border-4 border-[#2A2A2A] bg-[#F0F8FF]",
+                  index === 0 || index === 6 ? "text-[#FF6B6B]" : "text-[#2A2A2A]"
+                )}
+              >
+                {day}
+              </div>
+            ))}
+          </div>
+
+          {/* Calendar Grid */}
+          <div role="rowgroup" className="flex flex-col gap-2 flex-1 overflow-y-auto min-h-0">
+            {weeks.map((week, weekIndex) => {
+              const weekKeys = week.map((date) => toDateKey(date));
+              const { bars, laneCount } = layoutSpanningBars(filteredEvents, weekKeys);
 
-        {/* Calendar Grid */}
-        <div className="grid grid-cols-7 gap-2 flex-1 overflow-y-auto min-h-0">
-          {days.map((date, index) => {
-            const dateKey = date.toISOString().split('T')[0];
-            const dayEvents = getFilteredEvents(events[dateKey] || []);
-            
-            return (
-              <div key={index} className="relative min-h-[120px]">
-                <Droppable droppableId={dateKey}>
-                  {(provided) => (
-                    <div
-                      ref={provided.innerRef}
-                      {...provided.droppableProps}
-                      className="absolute inset-0"
-                    >
-                      <button
-                        onClick={() => onDaySelect(date)}
-                        className={cn(
-                          "w-full h-full p-2 transition-all duration-200 flex flex-col",
-                          "border-4 border-[#2A2A2A]",
-                          isCurrentMonth(date) 
-                            ? "bg-white" 
-                            : "bg-[#F5F5F5]",
-                          isToday(date) && "bg-[#FFF8DC]",
-                          isSelected(date) && "bg-[#E6F3FF]",
-                          !isCurrentMonth(date) && "opacity-50",
-                          "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]"
-                        )}
+              // Multi-day and overnight events, drawn from the cell they start in across the days they cover
+              const renderBar = (bar: SpanningBar) => (
+                <div
+                  key={`${bar.dateKey}:${bar.event.id}`}
+                  role="button"
+                  tabIndex={weekKeys.slice(bar.startColumn, bar.startColumn + bar.span).includes(activeKey) ? 0 : -1}
+                  aria-label={`${bar.event.title}, ${formatEventTimeRange(bar.event, bar.dateKey)}`}
+                  onClick={(e) => onEventClick(e, bar.event, getDateForKey(bar.dateKey))}
+                  onKeyDown={(e) => handleEventKeyDown(e, bar.event, getDateForKey(bar.dateKey))}
+                  title={`${bar.event.title} (${formatEventTimeRange(bar.event, bar.dateKey)})`}
+                  className={cn(
+                    "absolute z-10 px-2 flex items-center gap-1 text-[10px] font-bold font-mono truncate cursor-pointer",
+                    "border-2 border-[#2A2A2A] shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]",
+                    "hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-all",
+                    bar.continuesBefore && "border-l-0",
+                    bar.continuesAfter && "border-r-0",
+                    selectedEventKeys.includes(`${bar.dateKey}:${bar.event.id}`) && "ring-4 ring-[#FF6B6B]"
+                  )}
+                  style={{
+                    top: BAR_TOP_OFFSET + bar.lane * BAR_HEIGHT,
+                    height: BAR_HEIGHT - 4,
+                    left: 6,
+                    width: `calc(${bar.span} * (100% + 0.5rem) - 0.5rem - 12px)`,
+                    backgroundColor: getEventColor(bar.event, categories),
+                  }}
+                >
+                  {bar.continuesBefore && <ChevronLeft className="w-3 h-3 flex-shrink-0" />}
+                  <span className="truncate">
+                    {!bar.continuesBefore && `${bar.event.startTime} `}
+                    {bar.event.title}
+                  </span>
+                  {bar.continuesAfter && <ChevronRight className="w-3 h-3 flex-shrink-0 ml-auto" />}
+                </div>
+              );
+
+              return (
+                <div
+                  key={weekIndex}
+                  role="row"
+                  className="relative grid grid-cols-7 gap-2 flex-1"
+                  style={{ minHeight: 120 + laneCount * BAR_HEIGHT }}
+                >
+                  {week.map((date, dayIndex) => {
+                    const dateKey = weekKeys[dayIndex];
+                    const dayEvents = (filteredEvents[dateKey] || []).filter(
+                      (event) => !isMultiDayEvent(event, dateKey)
+                    );
+                    const spanningCount = bars.filter(
+                      (bar) => bar.startColumn <= dayIndex && bar.startColumn + bar.span > dayIndex
+                    ).length;
+                    const totalCount = dayEvents.length + spanningCount;
+
+                    return (
+                      <div
+                        key={dateKey}
+                        role="gridcell"
+                        data-date-key={dateKey}
+                        tabIndex={dateKey === activeKey ? 0 : -1}
+                        aria-label={describeDay(date, totalCount)}
+                        aria-selected={Boolean(isSelected(date))}
+                        onKeyDown={(e) => handleCellKeyDown(e, date, dateKey)}
+                        onFocus={(e) => {
+                          if (e.target === e.currentTarget) setFocusedKey(dateKey);
+                        }}
+                        className="relative min-h-[120px] outline-none focus-visible:ring-4 focus-visible:ring-[#FF6B6B] focus-visible:ring-offset-2"
                       >
-                        <div className="flex items-center justify-between mb-2">
-                          <span className={cn(
-                            "font-bold font-mono text-lg",
-                            isWeekend(date) && isCurrentMonth(date) && "text-[#FF6B6B]",
-                            !isCurrentMonth(date) && "text-gray-400"
-                          )}>
-                            {date.getDate()}
-                          </span>
-                          {dayEvents.length > 0 && (
-                            <span className="text-xs font-bold bg-[#2A2A2A] text-white px-2 py-1 font-mono">
-                              {dayEvents.length}
-                            </span>
-                          )}
-                        </div>
-
-                        <div className="space-y-1 overflow-hidden flex-1">
-                          {dayEvents.slice(0, 2).map((event, eventIndex) => (
-                            <Draggable
-                              key={event.id}
-                              draggableId={event.id}
-                              index={eventIndex}
+                        <Droppable droppableId={dateKey}>
+                          {(provided) => (
+                            <div
+                              ref={provided.innerRef}
+                              {...provided.droppableProps}
+                              className="absolute inset-0"
                             >
-                              {(provided) => (
-                                <div
-                                  ref={provided.innerRef}
-                                  {...provided.draggableProps}
-                                  {...provided.dragHandleProps}
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    onEventClick(e, event, date);
-                                  }}
-                                  className={cn(
-                                    "w-full text-left text-xs p-2 border-2 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all",
-                                    "hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)]",
-                          
-                                   
-                                    "font-mono"
+                              <div
+                                onClick={() => onDaySelect(date)}
+                                className={cn(
+                                  "w-full h-full p-2 transition-all duration-200 flex flex-col",
+                                  "border-4 border-[#2A2A2A]",
+                                  isCurrentMonth(date) 
+                                    ? "bg-white" 
+                                    : "bg-[#F5F5F5]",
+                                  isToday(date) && "bg-[#FFF8DC]",
+                                  isSelected(date) && "bg-[#E6F3FF]",
+                                  !isCurrentMonth(date) && "opacity-50",
+                                  "shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]"
+                                )}
+                              >
+                                <div className="flex items-center justify-between mb-2">
+                                  <span className={cn(
+                                    "font-bold font-mono text-lg",
+                                    isWeekend(date) && isCurrentMonth(date) && "text-[#FF6B6B]",
+                                    !isCurrentMonth(date) && "text-gray-400"
+                                  )}>
+                                    {date.getDate()}
+                                  </span>
+                                  {totalCount > 0 && (
+                                    <span className="text-xs font-bold bg-[#2A2A2A] text-white px-2 py-1 font-mono">
+                                      {totalCount}
+                                    </span>
+                                  )}
+                                </div>
+
+                                {/* Room for the multi-day bars drawn over this row */}
+                                <div className="flex-shrink-0" style={{ height: laneCount * BAR_HEIGHT }} />
+
+                                <div className="space-y-1 overflow-hidden flex-1">
+                                  {dayEvents.slice(0, 2).map((event, eventIndex) => (
+                                    <Draggable
+                                      key={event.id}
+                                      draggableId={`${dateKey}:${event.id}`}
+                                      index={eventIndex}
+                                    >
+                                      {(provided) => (
+                                        <div
+                                          ref={provided.innerRef}
+                                          {...provided.draggableProps}
+                                          {...provided.dragHandleProps}
+                                          // Only the focused day's events are tab stops
+                                          tabIndex={dateKey === activeKey ? 0 : -1}
+                                          aria-label={`${event.title}, ${event.startTime} to ${event.endTime}`}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            onEventClick(e, event, date);
+                                          }}
+                                          onKeyDown={(e) => handleEventKeyDown(e, event, date)}
+                                          className={cn(
+                                            "w-full text-left text-xs p-2 border-2 shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all",
+                                            "hover:translate-x-[1px] hover:translate-y-[1px] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)]",
+                                            selectedEventKeys.includes(`${dateKey}:${event.id}`) && "ring-4 ring-[#FF6B6B]",
+                                            "font-mono"
+                                          )}
+                                          style={{ backgroundColor: getEventColor(event, categories) }} 
+                                        >
+                                          <div className="font-bold truncate">{event.title}</div>
+                                          <div className="text-[10px] truncate mt-1 opacity-75">
+                                            {event.startTime} - {event.endTime}
+                                          </div>
+                                        </div>
+                                      )}
+                                    </Draggable>
+                                  ))}
+                                  {dayEvents.length > 2 && (
+                                    <button
+                                      type="button"
+                                      tabIndex={dateKey === activeKey ? 0 : -1}
+                                      aria-label={`Show all ${totalCount} events`}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setListDateKey(dateKey);
+                                      }}
+                                      className="w-full text-xs font-bold text-[#2A2A2A] text-center bg-[#F0F8FF] py-1 border-2 border-[#2A2A2A] font-mono hover:bg-[#E6F3FF]"
+                                    >
+                                      +{dayEvents.length - 2} more
+                                    </button>
                                   )}
-                                  style={{ backgroundColor: `${event.color || 'gray'}` }} 
-                                >
-                                  <div className="font-bold truncate">{event.title}</div>
-                                  <div className="text-[10px] truncate mt-1 opacity-75">
-                                    {event.startTime} - {event.endTime}
-                                  </div>
+                                  {provided.placeholder}
                                 </div>
-                              )}
-                            </Draggable>
-                          ))}
-                          {dayEvents.length > 2 && (
-                            <div className="text-xs font-bold text-[#2A2A2A] text-center bg-[#F0F8FF] py-1 border-2 border-[#2A2A2A] font-mono">
-                              +{dayEvents.length - 2} more
+                              </div>
                             </div>
                           )}
-                          {provided.placeholder}
-                        </div>
-                      </button>
-                    </div>
-                  )}
-                </Droppable>
-              </div>
-            );
-          })}
-        </div>
+                        </Droppable>
+                        {bars.filter((bar) => bar.startColumn === dayIndex).map(renderBar)}
+                      </div>
+                    );
+                  })}
+
+                </div>
+              );
+            })}
+          </div>
+          </div>
+        )}
       </div>
+
+      <EventListModal
+        isOpen={listDateKey !== null}
+        onClose={() => setListDateKey(null)}
+        selectedDate={listDateKey ? dateFromKey(listDateKey) : null}
+        events={listDateKey ? getEventsOnDate(filteredEvents, listDateKey) : []}
+        categories={categories}
+        onEditEvent={(e, event, eventDateKey) => {
+          setListDateKey(null);
+          onEventClick(e, event, dateFromKey(listDateKey!), eventDateKey);
+        }}
+        onDeleteEvent={onEventDelete}
+        onDuplicateEvent={onEventDuplicate}
+      />
     </DragDropContext>
   );
 };
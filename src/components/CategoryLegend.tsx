@@ -0,0 +1,67 @@
+import React from 'react';
+import { Tags } from 'lucide-react';
+import { Button } from './form/Buttons';
+import { Category } from '../lib/categories';
+
+interface CategoryLegendProps {
+  categories: Category[];
+  hiddenCategories: string[];
+  // Events per category in the visible month, hidden ones included
+  counts: Record<string, number>;
+  onToggle: (id: string) => void;
+  onManage: () => void;
+}
+
+const CategoryLegend: React.FC<CategoryLegendProps> = ({
+  categories,
+  hiddenCategories,
+  counts,
+  onToggle,
+  onManage,
+}) => {
+  return (
+    <div
+      role="group"
+      aria-label="Categories shown"
+      className="flex flex-wrap items-center gap-3 mb-6 p-3 bg-white border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono"
+    >
+      {categories.map((category) => {
+        const isShown = !hiddenCategories.includes(category.id);
+        return (
+          <label
+            key={category.id}
+            className={`flex items-center gap-2 px-2 py-1 border-2 border-[#2A2A2A] text-sm cursor-pointer select-none ${
+              isShown ? '' : 'opacity-50'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={isShown}
+              onChange={() => onToggle(category.id)}
+              className="w-4 h-4 accent-[#2A2A2A]"
+            />
+            <span
+              aria-hidden="true"
+              className="w-3 h-3 border border-[#2A2A2A]"
+              style={{ backgroundColor: category.color }}
+            />
+            <span className={isShown ? 'font-bold' : 'line-through'}>{category.name}</span>
+            <span className="text-xs" aria-label={`${counts[category.id] || 0} events this month`}>
+              {counts[category.id] || 0}
+            </span>
+          </label>
+        );
+      })}
+      <Button
+        type="button"
+        onClick={onManage}
+        className="ml-auto h-8 rounded-none bg-[#FFF8DC] text-[#2A2A2A] border-2 border-[#2A2A2A] font-mono text-sm"
+      >
+        <Tags className="w-4 h-4 mr-2" />
+        Edit categories
+      </Button>
+    </div>
+  );
+};
+
+export default CategoryLegend;
@@ -0,0 +1,231 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
+import { Button } from './form/Buttons';
+import { Input } from './form/InputBox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './form/Select';
+import { Event, listEvents } from '../lib/events';
+import { Category, createCategoryId } from '../lib/categories';
+
+interface CategoryManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: Category[];
+  events: Record<string, Event[]>;
+  onChange: (categories: Category[]) => void;
+  // Moves the category's events to another one, then removes it
+  onDelete: (id: string, reassignTo: string) => void;
+}
+
+const NEW_CATEGORY_COLOR = '#98FB98';
+
+const CategoryManagerModal: React.FC<CategoryManagerModalProps> = ({
+  isOpen,
+  onClose,
+  categories,
+  events,
+  onChange,
+  onDelete,
+}) => {
+  // Names being typed, applied when the field loses focus so a name is never empty
+  const [editedNames, setEditedNames] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(NEW_CATEGORY_COLOR);
+  // Category waiting for the user to pick where its events go
+  const [deleting, setDeleting] = useState<{ id: string; reassignTo: string } | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setEditedNames({});
+      setNewName('');
+      setNewColor(NEW_CATEGORY_COLOR);
+      setDeleting(null);
+      setError('');
+    }
+  }, [isOpen]);
+
+  // Stored events per category; a recurring series counts once
+  const eventCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    listEvents(events).forEach(({ event }) => {
+      counts[event.category] = (counts[event.category] || 0) + 1;
+    });
+    return counts;
+  }, [events]);
+
+  const isNameTaken = (name: string, exceptId?: string) =>
+    categories.some((category) => category.id !== exceptId && category.name.toLowerCase() === name.toLowerCase());
+
+  const updateCategory = (id: string, changes: Partial<Category>) => {
+    onChange(categories.map((category) => (category.id === id ? { ...category, ...changes } : category)));
+  };
+
+  const handleRename = (category: Category) => {
+    const name = (editedNames[category.id] ?? category.name).trim();
+    setEditedNames((current) => {
+      const remaining = { ...current };
+      delete remaining[category.id];
+      return remaining;
+    });
+    if (!name || name === category.name) return;
+    if (isNameTaken(name, category.id)) {
+      setError(`There is already a category called "${name}".`);
+      return;
+    }
+    setError('');
+    updateCategory(category.id, { name });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    if (isNameTaken(name)) {
+      setError(`There is already a category called "${name}".`);
+      return;
+    }
+    setError('');
+    onChange([...categories, { id: createCategoryId(name, categories), name, color: newColor }]);
+    setNewName('');
+  };
+
+  const handleDeleteClick = (category: Category) => {
+    const fallback = categories.find((other) => other.id !== category.id);
+    if (!fallback) return;
+    if (!eventCounts[category.id]) {
+      onDelete(category.id, fallback.id);
+      return;
+    }
+    setDeleting({ id: category.id, reassignTo: fallback.id });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            Events without a color of their own are shown in their category's color.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {categories.map((category) => {
+            const count = eventCounts[category.id] || 0;
+            return (
+              <li key={category.id} className="p-2 border-2 border-[#2A2A2A] font-mono text-sm space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="color"
+                    aria-label={`Color for ${category.name}`}
+                    value={category.color}
+                    onChange={(e) => updateCategory(category.id, { color: e.target.value })}
+                    className="w-12 h-10 p-1 cursor-pointer flex-shrink-0"
+                  />
+                  <Input
+                    type="text"
+                    aria-label="Category name"
+                    value={editedNames[category.id] ?? category.name}
+                    onChange={(e) => setEditedNames({ ...editedNames, [category.id]: e.target.value })}
+                    onBlur={() => handleRename(category)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    maxLength={40}
+                    className="flex-1"
+                  />
+                  <span className="w-20 text-xs text-gray-600 text-right flex-shrink-0">
+                    {count === 1 ? '1 event' : `${count} events`}
+                  </span>
+                  <Button
+                    type="button"
+                    onClick={() => handleDeleteClick(category)}
+                    disabled={categories.length === 1}
+                    aria-label={`Delete ${category.name}`}
+                    title={categories.length === 1 ? 'At least one category is needed' : 'Delete category'}
+                    className="rounded-none text-red-600 hover:bg-red-50 disabled:opacity-40 flex-shrink-0"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {deleting?.id === category.id && (
+                  <div className="flex flex-wrap items-center gap-2 pt-2 border-t-2 border-dashed border-[#2A2A2A]">
+                    <span>Move {count === 1 ? 'its event' : `its ${count} events`} to</span>
+                    <Select
+                      value={deleting.reassignTo}
+                      onValueChange={(reassignTo) => setDeleting({ ...deleting, reassignTo })}
+                    >
+                      <SelectTrigger className="w-40 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories
+                          .filter((other) => other.id !== category.id)
+                          .map((other) => (
+                            <SelectItem key={other.id} value={other.id} className="hover:bg-[#F0F8FF]">
+                              {other.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="button"
+                      onClick={() => {
+                        onDelete(deleting.id, deleting.reassignTo);
+                        setDeleting(null);
+                      }}
+                      className="h-8 rounded-none text-red-600 hover:bg-red-50"
+                    >
+                      Delete
+                    </Button>
+                    <Button type="button" onClick={() => setDeleting(null)} className="h-8 rounded-none hover:bg-[#F0F8FF]">
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        {error && <p className="text-sm font-mono font-bold text-[#a11e1e]">{error}</p>}
+
+        <form onSubmit={handleAdd} className="flex items-center gap-2 pt-4 border-t">
+          <Input
+            type="color"
+            aria-label="Color for the new category"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="w-12 h-10 p-1 cursor-pointer flex-shrink-0"
+          />
+          <Input
+            type="text"
+            placeholder="New category"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            maxLength={40}
+            className="flex-1"
+          />
+          <Button
+            type="submit"
+            disabled={!newName.trim()}
+            className="rounded-none bg-[#98FB98] text-[#2A2A2A] border-2 border-[#2A2A2A] font-mono disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryManagerModal;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
+import { Button } from './form/Buttons';
+import { Clock } from 'lucide-react';
+import { Event, formatEventTimeRange } from '../lib/events';
+import { TimeSlot } from '../lib/freeSlots';
+import { dateFromKey } from '../lib/dateKeys';
+import { Category, getEventColor } from '../lib/categories';
+
+interface ConflictDialogProps {
+  isOpen: boolean;
+  conflicts: { dateKey: string; event: Event }[];
+  categories: Category[];
+  // Free slots of the same length, nearest first
+  suggestions: TimeSlot[];
+  // End time that would clear the first clash, when shortening can resolve it
+  shortenedEndTime?: string;
+  onSaveAnyway: () => void;
+  onShorten: () => void;
+  onMove: (slot: TimeSlot) => void;
+  onClose: () => void;
+}
+
+const formatSlotDate = (dateKey: string) =>
+  dateFromKey(dateKey).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({
+  isOpen,
+  conflicts,
+  categories,
+  suggestions,
+  shortenedEndTime,
+  onSaveAnyway,
+  onShorten,
+  onMove,
+  onClose,
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[460px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>This time is already taken</DialogTitle>
+          <DialogDescription>
+            {conflicts.length === 1 ? 'It overlaps with:' : `It overlaps with ${conflicts.length} events:`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="space-y-2">
+          {conflicts.map(({ dateKey, event }) => (
+            <li
+              key={`${dateKey}:${event.id}`}
+              className="p-2 border-2 border-[#2A2A2A] font-mono text-sm"
+              style={{ backgroundColor: getEventColor(event, categories) }}
+            >
+              <div className="font-bold truncate">{event.title}</div>
+              <div className="text-xs flex items-center">
+                <Clock className="w-3 h-3 mr-1 flex-shrink-0" />
+                {formatSlotDate(dateKey)}, {formatEventTimeRange(event, dateKey)}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-bold font-mono">Free at a nearby time</h3>
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600 font-mono">No free slot of the same length in the next 7 days.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {suggestions.map((slot) => (
+                <Button
+                  key={`${slot.dateKey}:${slot.startTime}`}
+                  type="button"
+                  onClick={() => onMove(slot)}
+                  className="rounded-none font-mono text-xs hover:bg-[#F0F8FF]"
+                >
+                  {formatSlotDate(slot.dateKey)}, {slot.startTime} - {slot.endTime}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 pt-4 border-t">
+          <Button type="button" onClick={onClose} className="rounded-none font-mono hover:bg-[#F0F8FF]">
+            Back to editing
+          </Button>
+          {shortenedEndTime && (
+            <Button type="button" onClick={onShorten} className="rounded-none font-mono hover:bg-[#F0F8FF]">
+              End at {shortenedEndTime}
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={onSaveAnyway}
+            className="rounded-none font-mono text-red-600 hover:bg-red-50"
+          >
+            Save anyway
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConflictDialog;
@@ -1,32 +1,38 @@
 import React from 'react';
 import * as Dialog from '@radix-ui/react-dialog';
-import { X, Clock, CalendarDays, Trash2, Edit2, ChevronRight } from 'lucide-react';
+import { Droppable, Draggable } from '@hello-pangea/dnd';
+import { X, Clock, CalendarDays, Trash2, Edit2, Copy, GripVertical } from 'lucide-react';
 import { Button } from './form/Buttons';
-
-interface Event {
-  id: string;
-  title: string;
-  startTime: string;
-  endTime: string;
-  description?: string;
-}
+import { Event, formatEventTimeRange } from '../lib/events';
+import { Category, getEventColor } from '../lib/categories';
+import { toDateKey } from '../lib/dateKeys';
 
 interface EventListModalProps {
   isOpen: boolean;
   onClose: () => void;
   selectedDate: Date | null;
-  events: Event[];
-  onEditEvent: (event: Event) => void;
-  onDeleteEvent: (event: Event) => void;
+  // Events on the day, with the date each starts on
+  events: { dateKey: string; event: Event }[];
+  categories: Category[];
+  onEditEvent: (e: React.SyntheticEvent, event: Event, eventDateKey: string) => void;
+  onDeleteEvent: (event: Event, eventDateKey: string) => void;
+  onDuplicateEvent: (event: Event, eventDateKey: string) => void;
 }
 
+// Droppable ids of the list are "list:<dateKey>", so drops can tell it apart from the day cell
+export const LIST_DROPPABLE_PREFIX = 'list:';
+
+// Drawer with every event of a day, including those hidden behind "+N more". It is not
+// modal, so events can be dragged from it onto the days of the calendar.
 const EventListModal: React.FC<EventListModalProps> = ({
   isOpen,
   onClose,
   selectedDate,
   events,
+  categories,
   onEditEvent,
   onDeleteEvent,
+  onDuplicateEvent,
 }) => {
   const formatDate = (date: Date) => {
     return date.toLocaleDateString('en-US', {
@@ -37,96 +43,121 @@ const EventListModal: React.FC<EventListModalProps> = ({
     });
   };
 
+  const dateKey = selectedDate && toDateKey(selectedDate);
+  const sortedEvents = [...events].sort(
+    (a, b) => a.dateKey.localeCompare(b.dateKey) || a.event.startTime.localeCompare(b.event.startTime)
+  );
+
   return (
-    <Dialog.Root open={isOpen} onOpenChange={onClose}>
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && onClose()} modal={false}>
       <Dialog.Portal>
-        <Dialog.Overlay 
-          className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40 animate-overlayShow"
-          style={{ animationDuration: '150ms', animationTimingFunction: 'cubic-bezier(0.16, 1, 0.3, 1)' }}
-        />
-        <Dialog.Content 
-          className="fixed right-0 top-0 h-full w-[400px] bg-white shadow-2xl z-50 overflow-hidden flex flex-col animate-slideIn"
-          style={{ animationDuration: '150ms', animationTimingFunction: 'cubic-bezier(0.16, 1, 0.3, 1)' }}
+        <Dialog.Content
+          className="fixed right-0 top-0 h-full w-[400px] bg-white border-l-4 border-[#2A2A2A] shadow-[-4px_0px_0px_0px_rgba(0,0,0,1)] z-50 overflow-hidden flex flex-col font-mono"
+          // Dragging an event out of the list ends over the calendar, which shouldn't close it
+          onInteractOutside={(e) => e.preventDefault()}
         >
-          
-          <div className="flex items-center justify-between p-6 border-b bg-gradient-to-r from-purple-50 to-blue-50">
+          <div className="flex items-start justify-between p-6 border-b-4 border-[#2A2A2A] bg-[#FFF8DC]">
             <div>
-              <Dialog.Title className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-blue-500 bg-clip-text text-transparent">
-                Events
-              </Dialog.Title>
+              <Dialog.Title className="text-2xl font-black text-[#2A2A2A]">Events</Dialog.Title>
               {selectedDate && (
-                <Dialog.Description className="text-sm text-gray-500 mt-1 flex items-center">
+                <Dialog.Description className="text-sm text-[#2A2A2A] mt-2 flex items-center">
                   <CalendarDays className="inline-block w-4 h-4 mr-1" />
                   {formatDate(selectedDate)}
                 </Dialog.Description>
               )}
             </div>
-            <Dialog.Close className="text-gray-400 hover:text-gray-600 transition-colors">
-              <X size={20} />
+            <Dialog.Close aria-label="Close" className="p-1 hover:bg-white transition-colors">
+              <X className="w-5 h-5" />
             </Dialog.Close>
           </div>
 
-          <div className="flex-1 overflow-auto">
-            {events.length === 0 ? (
-              <div className="text-center text-gray-500 py-12">
-                <CalendarDays className="w-16 h-16 mx-auto mb-4 opacity-50" />
-                <p className="text-lg font-medium">No events scheduled</p>
-                <p className="text-sm mt-1">Click anywhere on the calendar to add an event</p>
-              </div>
-            ) : (
-              <div className="p-6 space-y-4">
-                {events
-                  .sort((a, b) => a.startTime.localeCompare(b.startTime))
-                  .map((event) => (
-                    <div
-                      key={event.id}
-                      className="group bg-white border rounded-xl p-4 shadow-sm hover:shadow-md transition-all duration-200"
-                    >
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1 min-w-0">
-                          <h3 className="font-semibold text-gray-900 truncate pr-4">
-                            {event.title}
-                          </h3>
-                          <div className="mt-1 text-sm text-gray-500 flex items-center">
-                            <Clock className="w-4 h-4 mr-1 flex-shrink-0" />
-                            <span className="truncate">
-                              {event.startTime} - {event.endTime}
-                            </span>
-                          </div>
-                          {event.description && (
-                            <p className="mt-2 text-sm text-gray-600 line-clamp-2">
-                              {event.description}
-                            </p>
+          <Droppable droppableId={`${LIST_DROPPABLE_PREFIX}${dateKey}`} isDropDisabled>
+            {(provided) => (
+              <div ref={provided.innerRef} {...provided.droppableProps} className="flex-1 overflow-auto p-6 space-y-4">
+                {sortedEvents.length === 0 && (
+                  <p className="text-sm text-[#2A2A2A]">No events scheduled</p>
+                )}
+                {sortedEvents.map((entry, index) => (
+                  <Draggable
+                    key={`${entry.dateKey}:${entry.event.id}`}
+                    draggableId={`${LIST_DROPPABLE_PREFIX}${dateKey}:${entry.event.id}`}
+                    index={index}
+                    // Events that started on an earlier day are moved from that day
+                    isDragDisabled={entry.dateKey !== dateKey}
+                  >
+                    {(provided, snapshot) => (
+                      <div
+                        ref={provided.innerRef}
+                        {...provided.draggableProps}
+                        className="bg-white border-4 border-[#2A2A2A] p-3 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+                        style={{
+                          ...provided.draggableProps.style,
+                          ...(snapshot.isDragging && { backgroundColor: getEventColor(entry.event, categories) }),
+                        }}
+                      >
+                        <div className="flex items-start gap-2">
+                          {entry.dateKey === dateKey && (
+                            <div
+                              {...provided.dragHandleProps}
+                              aria-label={`Drag ${entry.event.title} to another day`}
+                              className="mt-1 cursor-grab"
+                            >
+                              <GripVertical className="w-4 h-4" />
+                            </div>
                           )}
+                          <span
+                            aria-hidden="true"
+                            className="mt-1.5 w-3 h-3 border border-[#2A2A2A] flex-shrink-0"
+                            style={{ backgroundColor: getEventColor(entry.event, categories) }}
+                          />
+                          <div className="flex-1 min-w-0">
+                            <h3 className="font-bold text-[#2A2A2A] truncate">{entry.event.title}</h3>
+                            <div className="mt-1 text-xs text-[#2A2A2A] flex items-center">
+                              <Clock className="w-3 h-3 mr-1 flex-shrink-0" />
+                              <span className="truncate">{formatEventTimeRange(entry.event, entry.dateKey)}</span>
+                            </div>
+                            {entry.event.description && (
+                              <p className="mt-2 text-xs text-[#2A2A2A] line-clamp-2">{entry.event.description}</p>
+                            )}
+                          </div>
                         </div>
-                        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <div className="mt-3 flex gap-2 justify-end">
                           <Button
-                            onClick={() => onEditEvent(event)}
+                            onClick={(e) => onEditEvent(e, entry.event, entry.dateKey)}
                             variant="outline"
                             size="sm"
-                            className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                            aria-label={`Edit ${entry.event.title}`}
+                            className="rounded-none border-2 border-[#2A2A2A] bg-[#E6F3FF]"
                           >
                             <Edit2 className="w-4 h-4" />
                           </Button>
                           <Button
-                            onClick={() => onDeleteEvent(event)}
+                            onClick={() => onDuplicateEvent(entry.event, entry.dateKey)}
                             variant="outline"
                             size="sm"
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            aria-label={`Duplicate ${entry.event.title}`}
+                            className="rounded-none border-2 border-[#2A2A2A] bg-[#98FB98]"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            onClick={() => onDeleteEvent(entry.event, entry.dateKey)}
+                            variant="outline"
+                            size="sm"
+                            aria-label={`Delete ${entry.event.title}`}
+                            className="rounded-none border-2 border-[#2A2A2A] bg-[#FF6B6B] text-white"
                           >
                             <Trash2 className="w-4 h-4" />
                           </Button>
                         </div>
                       </div>
-                      <div className="mt-3 pt-3 border-t border-gray-100 flex justify-between items-center text-sm text-gray-500 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <span>Click to edit</span>
-                        <ChevronRight className="w-4 h-4" />
-                      </div>
-                    </div>
-                  ))}
+                    )}
+                  </Draggable>
+                ))}
+                {provided.placeholder}
               </div>
             )}
-          </div>
+          </Droppable>
         </Dialog.Content>
       </Dialog.Portal>
     </Dialog.Root>
@@ -1,4 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import { Controller, useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Download, ExternalLink, MapPin, Paperclip, UserPlus, X } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
 import { Button } from './form/Buttons';
 import { Input } from './form/InputBox';
@@ -11,74 +15,225 @@ import {
   SelectTrigger,
   SelectValue,
 } from './form/Select';
-
-interface Event {
-  id: string;
-  title: string;
-  startTime: string;
-  endTime: string;
-  description?: string;
-  category: "work" | "personal" | "other";
-  color?: string;
-}
+import RecurrenceFields from './RecurrenceFields';
+import { Event, getEventEndDateKey } from '../lib/events';
+import {
+  Attachment,
+  RSVP_STATUSES,
+  attachmentSchema,
+  attendeeListSchema,
+  checkEventTiming,
+  dateKeySchema,
+  eventFieldsSchema,
+  linkSchema,
+  recurrenceRuleSchema,
+} from '../lib/eventSchema';
+import { RSVP_LABELS } from '../lib/attendees';
+import { formatFileSize, isViewable, openAttachment, saveAttachment } from '../lib/attachments';
+import { addDaysToKey, dateFromKey, daysBetweenKeys, listTimeZones } from '../lib/dateKeys';
+import { REMINDER_OPTIONS, describeReminder } from '../lib/reminders';
+import { Category, findCategory, getDefaultCategoryId } from '../lib/categories';
+import { EventTemplate, eventFromTemplate } from '../lib/templates';
 
 interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (event: Omit<Event, 'id'>) => void;
+  onSave: (event: Omit<Event, 'id'>, dateKey: string) => void;
   onDelete: (event: Event) => void; // Ensure onDelete is expecting a fully defined Event, not possibly undefined
 
   event?: Event;
+  categories: Category[];
+  // Initial values for a new event, e.g. a free slot picked in "Find a time"
+  draft?: Partial<Omit<Event, 'id'>>;
   selectedDate: Date | null;
+  // Date key the event starts on (or the selected day for a new event)
+  dateKey: string | null;
+  // New events can start from one of these
+  templates: EventTemplate[];
+  onSaveTemplate: (event: Omit<Event, 'id'>, dateKey: string) => void;
 }
 
+// The shared event fields, plus what only the form edits. The end date is always filled in.
+const eventFormSchema = eventFieldsSchema
+  .extend({
+    endDate: dateKeySchema,
+    recurrence: recurrenceRuleSchema.optional(),
+    reminders: z.array(z.number().int().min(0)),
+    attendees: attendeeListSchema,
+    links: z.array(linkSchema),
+    attachments: z.array(attachmentSchema),
+  })
+  .superRefine(checkEventTiming);
+
+type EventFormValues = z.infer<typeof eventFormSchema>;
+
+// Typing an end time before the start time on the start date means the event runs
+// overnight, e.g. 22:00–02:00, so it ends the next day
+const getOvernightEndDate = ({ date, endDate, startTime, endTime }: EventFormValues) => {
+  if (!dateKeySchema.safeParse(date).success || (endDate && endDate !== date)) return undefined;
+  return startTime && endTime && endTime < startTime ? addDaysToKey(date, 1) : undefined;
+};
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p role="alert" className="text-xs font-medium text-red-600">{message}</p> : null;
+
 const EventModal: React.FC<EventModalProps> = ({
   isOpen,
   onClose,
   onSave,
   onDelete,
   event,
+  categories,
+  draft,
   selectedDate,
+  dateKey,
+  templates,
+  onSaveTemplate,
 }) => {
-  const [title, setTitle] = useState('');
-  const [startTime, setStartTime] = useState('09:00');
-  const [endTime, setEndTime] = useState('10:00');
-  const [description, setDescription] = useState('');
-  const [category, setCategory] = useState<Event['category']>('other');
-  const [color, setColor] = useState('');
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    getValues,
+    setValue,
+    formState: { errors, isDirty },
+  } = useForm<EventFormValues>({ resolver: zodResolver(eventFormSchema), mode: 'onTouched' });
+  const { fields: attendeeFields, append: appendAttendee, remove: removeAttendee } = useFieldArray({
+    control,
+    name: 'attendees',
+  });
+  // Shown instead of closing when the form has unsaved changes
+  const [isConfirmingClose, setIsConfirmingClose] = useState(false);
+  // Set once the form's details are saved as a template, until the modal opens again
+  const [isTemplateSaved, setIsTemplateSaved] = useState(false);
+  const [newLink, setNewLink] = useState('');
+  const [linkError, setLinkError] = useState('');
+  const [isStoringFiles, setIsStoringFiles] = useState(false);
+  const [attachmentError, setAttachmentError] = useState('');
 
   useEffect(() => {
-    if (isOpen && event) {
-      setTitle(event.title);
-      setStartTime(event.startTime);
-      setEndTime(event.endTime);
-      setDescription(event.description || '');
-      setCategory(event.category);
-      setColor(event.color || '');
-    } else if (isOpen) {
-      setTitle('');
-      setStartTime('09:00');
-      setEndTime('10:00');
-      setDescription('');
-      setCategory('other');
-      setColor('');
-    }
-  }, [isOpen, event]);
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSave({
-      title,
-      startTime,
-      endTime,
-      description,
-      category,
-      color,
+    if (!isOpen) return;
+    setIsConfirmingClose(false);
+    setIsTemplateSaved(false);
+    setNewLink('');
+    setLinkError('');
+    setAttachmentError('');
+    const source = event || draft;
+    reset({
+      title: source?.title || '',
+      date: dateKey || '',
+      endDate: event
+        ? (dateKey ? getEventEndDateKey(event, dateKey) : '')
+        : draft?.endDate && dateKey && draft.endDate > dateKey ? draft.endDate : dateKey || '',
+      startTime: source?.startTime || '09:00',
+      endTime: source?.endTime || '10:00',
+      description: source?.description || '',
+      category: source?.category || getDefaultCategoryId(categories),
+      color: source?.color || undefined,
+      recurrence: source?.recurrence,
+      timeZone: source?.timeZone || undefined,
+      reminders: source?.reminders || [],
+      attendees: source?.attendees || [],
+      location: source?.location || '',
+      links: source?.links || [],
+      attachments: source?.attachments || [],
     });
-    onClose();
+  }, [isOpen, event, draft, dateKey, categories, reset]);
+
+  const toEventData = (values: EventFormValues): Omit<Event, 'id'> => ({
+    title: values.title,
+    startTime: values.startTime,
+    endTime: values.endTime,
+    category: values.category,
+    ...(values.description && { description: values.description }),
+    ...(values.color && { color: values.color }),
+    ...(values.endDate > values.date && { endDate: values.endDate }),
+    ...(values.recurrence && { recurrence: values.recurrence }),
+    ...(values.timeZone && { timeZone: values.timeZone }),
+    ...(values.reminders.length > 0 && { reminders: [...values.reminders].sort((a, b) => b - a) }),
+    ...(values.attendees.length > 0 && {
+      attendees: values.attendees.map(({ role, ...attendee }) => ({ ...attendee, ...(role && { role }) })),
+    }),
+    ...(values.location && { location: values.location }),
+    ...(values.links.length > 0 && { links: values.links }),
+    ...(values.attachments.length > 0 && { attachments: values.attachments }),
+  });
+
+  const onSubmit = (values: EventFormValues) => {
+    onSave(toEventData(values), values.date);
   };
 
+  // Fills in the template's details on the chosen start date, keeping recurrence and reminders
+  const applyTemplate = (id: string) => {
+    const template = templates.find((candidate) => candidate.id === id);
+    const date = watch('date');
+    if (!template || !date) return;
+    const data = eventFromTemplate(template, date);
+    const options = { shouldDirty: true, shouldValidate: true };
+    setValue('title', data.title, options);
+    setValue('startTime', data.startTime, options);
+    setValue('endTime', data.endTime, options);
+    setValue('endDate', data.endDate || date, options);
+    setValue('category', data.category, options);
+    setValue('color', data.color, options);
+    setValue('description', data.description || '', options);
+  };
+
+  // Links typed without a scheme, such as "meet.example.com/abc", are taken as https
+  const addLink = () => {
+    const value = newLink.trim();
+    if (!value) return;
+    const result = linkSchema.safeParse(/^[a-z][a-z\d+.-]*:/i.test(value) ? value : `https://${value}`);
+    if (!result.success) {
+      setLinkError(result.error.issues[0].message);
+      return;
+    }
+    const links = getValues('links');
+    if (!links.includes(result.data)) setValue('links', [...links, result.data], { shouldDirty: true });
+    setNewLink('');
+    setLinkError('');
+  };
+
+  // Files are stored right away; ones never saved with an event are cleaned up later
+  const addFiles = async (files: File[]) => {
+    setIsStoringFiles(true);
+    setAttachmentError('');
+    const added: Attachment[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(await saveAttachment(file));
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : `Couldn't store ${file.name}`);
+      }
+    }
+    setValue('attachments', [...getValues('attachments'), ...added], { shouldDirty: true });
+    setAttachmentError(failures.join('. '));
+    setIsStoringFiles(false);
+  };
+
+  const handleOpenAttachment = (attachment: Attachment, download?: boolean) => {
+    openAttachment(attachment, download).catch((error) =>
+      setAttachmentError(error instanceof Error ? error.message : `Couldn't open ${attachment.name}`)
+    );
+  };
+
+  const startDate = watch('date');
+  const category = watch('category');
+  const color = watch('color');
+  const reminders = watch('reminders') || [];
+  const links = watch('links') || [];
+  const attachments = watch('attachments') || [];
+
+  const startDateValue = startDate ? dateFromKey(startDate) : selectedDate;
+
   const handleClose = () => {
+    if (isDirty && !isConfirmingClose) {
+      setIsConfirmingClose(true);
+      return;
+    }
     onClose();
   };
 
@@ -89,13 +244,19 @@ const EventModal: React.FC<EventModalProps> = ({
     onClose();
   };
 
-  const handleEventTypeChange = (value: "work" | "personal" | "other") => {
-    setCategory(value);
-  };
+  // Imported events can have offsets beyond the standard ones
+  const reminderOptions = [
+    ...REMINDER_OPTIONS,
+    ...reminders
+      .filter((minutes) => !REMINDER_OPTIONS.some((option) => option.minutes === minutes))
+      .map((minutes) => ({ minutes, label: describeReminder(minutes) })),
+  ];
+
+  const categoryColor = findCategory(categories, category)?.color;
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[425px] bg-gradient-to-br from-white to-gray-50 text-gray-900 border-t-4 border-t-blue-500">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto bg-gradient-to-br from-white to-gray-50 text-gray-900 border-t-4 border-t-blue-500">
         <DialogHeader className="border-b pb-4">
           <DialogTitle className="text-xl font-semibold text-blue-600">
             {event ? 'Edit Event' : 'Add Event'} - {selectedDate?.toLocaleDateString()}
@@ -105,43 +266,127 @@ const EventModal: React.FC<EventModalProps> = ({
           </DialogDescription>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="space-y-5 mt-4">
+        <form onSubmit={handleSubmit(onSubmit)} noValidate className="space-y-5 mt-4">
+          {!event && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Start from template</Label>
+              <Select value="" onValueChange={applyTemplate}>
+                <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+                  <SelectValue placeholder="Choose a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id} className="hover:bg-blue-50">
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label className="text-sm font-medium text-gray-700">Title *</Label>
             <Input
               type="text"
-              name="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              required
+              {...register('title')}
+              aria-invalid={Boolean(errors.title)}
               className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               placeholder="Enter event title"
             />
+            <FieldError message={errors.title?.message} />
           </div>
 
           <div className="grid grid-cols-2 gap-4 items-end">
             <div className="space-y-2">
               <Label className="text-sm font-medium text-gray-700">Category *</Label>
-              <Select value={category} onValueChange={handleEventTypeChange}>
-                <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
-                  <SelectValue placeholder="Select category" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="work" className="hover:bg-blue-50">Work</SelectItem>
-                  <SelectItem value="personal" className="hover:bg-blue-50">Personal</SelectItem>
-                  <SelectItem value="other" className="hover:bg-blue-50">Other</SelectItem>
-                </SelectContent>
-              </Select>
+              <Controller
+                control={control}
+                name="category"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+                      <SelectValue placeholder="Select category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {categories.map(({ id, name, color: swatch }) => (
+                        <SelectItem key={id} value={id} className="hover:bg-blue-50">
+                          <span className="inline-block w-3 h-3 mr-2 border border-gray-500" style={{ backgroundColor: swatch }} />
+                          {name}
+                        </SelectItem>
+                      ))}
+                      {!findCategory(categories, field.value) && field.value && (
+                        // An event whose category was deleted in another tab
+                        <SelectItem value={field.value} className="hover:bg-blue-50">{field.value}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+              <FieldError message={errors.category?.message} />
             </div>
             <div className="space-y-2">
-              <Label className="text-sm font-medium text-gray-700">Color Label</Label>
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium text-gray-700">Color Label</Label>
+                {color && categoryColor && (
+                  <button
+                    type="button"
+                    onClick={() => setValue('color', undefined, { shouldDirty: true })}
+                    className="text-xs text-blue-600 hover:underline"
+                  >
+                    Use category color
+                  </button>
+                )}
+              </div>
               <Input
                 type="color"
                 name="color"
-                value={color}
-                onChange={(e) => setColor(e.target.value)}
+                value={color || categoryColor || '#808080'}
+                onChange={(e) => setValue('color', e.target.value, { shouldDirty: true, shouldValidate: true })}
                 className="w-full h-10 border rounded-lg cursor-pointer"
               />
+              <FieldError message={errors.color?.message} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">Start Date *</Label>
+              <Controller
+                control={control}
+                name="date"
+                rules={{ deps: ['endDate', 'endTime'] }}
+                render={({ field }) => (
+                  <Input
+                    type="date"
+                    {...field}
+                    onChange={(e) => {
+                      // Moving the start date keeps the event's length in days
+                      const endDate = watch('endDate');
+                      if (field.value && endDate && e.target.value) {
+                        setValue('endDate', addDaysToKey(endDate, daysBetweenKeys(field.value, e.target.value)), {
+                          shouldDirty: true,
+                        });
+                      }
+                      field.onChange(e.target.value);
+                    }}
+                    aria-invalid={Boolean(errors.date)}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  />
+                )}
+              />
+              <FieldError message={errors.date?.message} />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700">End Date *</Label>
+              <Input
+                type="date"
+                {...register('endDate', { deps: ['endTime'] })}
+                min={startDate}
+                aria-invalid={Boolean(errors.endDate)}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              />
+              <FieldError message={errors.endDate?.message} />
             </div>
           </div>
 
@@ -150,37 +395,308 @@ const EventModal: React.FC<EventModalProps> = ({
               <Label className="text-sm font-medium text-gray-700">Start Time *</Label>
               <Input
                 type="time"
-                name="startTime"
-                value={startTime}
-                onChange={(e) => setStartTime(e.target.value)}
-                required
+                {...register('startTime', { deps: ['endTime'] })}
+                aria-invalid={Boolean(errors.startTime)}
                 className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               />
+              <FieldError message={errors.startTime?.message} />
             </div>
             <div className="space-y-2">
               <Label className="text-sm font-medium text-gray-700">End Time *</Label>
               <Input
                 type="time"
-                name="endTime"
-                value={endTime}
-                onChange={(e) => setEndTime(e.target.value)}
-                required
+                {...register('endTime', {
+                  onChange: () => {
+                    const endDate = getOvernightEndDate(getValues());
+                    if (endDate) setValue('endDate', endDate, { shouldDirty: true, shouldValidate: true });
+                  },
+                })}
+                aria-invalid={Boolean(errors.endTime)}
                 className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
               />
+              <FieldError message={errors.endTime?.message} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Time Zone</Label>
+            <Controller
+              control={control}
+              name="timeZone"
+              render={({ field }) => (
+                <Select
+                  value={field.value || 'floating'}
+                  onValueChange={(value) => field.onChange(value === 'floating' ? undefined : value)}
+                >
+                  <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    <SelectItem value="floating" className="hover:bg-blue-50">Floating (same clock time everywhere)</SelectItem>
+                    {listTimeZones().map((zone) => (
+                      <SelectItem key={zone} value={zone} className="hover:bg-blue-50">
+                        {zone.replace(/_/g, ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+            <FieldError message={errors.timeZone?.message} />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Location</Label>
+            <div className="relative">
+              <MapPin className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+              <Input
+                type="text"
+                {...register('location')}
+                aria-invalid={Boolean(errors.location)}
+                className="w-full pl-9 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="Room, address or dial-in"
+              />
+            </div>
+            <FieldError message={errors.location?.message} />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Reminders</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {reminderOptions.map(({ minutes, label }) => (
+                <label key={minutes} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reminders.includes(minutes)}
+                    onChange={() =>
+                      setValue(
+                        'reminders',
+                        reminders.includes(minutes)
+                          ? reminders.filter((reminder) => reminder !== minutes)
+                          : [...reminders, minutes],
+                        { shouldDirty: true }
+                      )
+                    }
+                    className="w-4 h-4 accent-blue-600"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-sm font-medium text-gray-700">Attendees</Label>
+              <button
+                type="button"
+                onClick={() => appendAttendee({ name: '', email: '', role: '', status: 'pending' })}
+                className="flex items-center text-xs text-blue-600 hover:underline"
+              >
+                <UserPlus className="w-4 h-4 mr-1" />
+                Add attendee
+              </button>
             </div>
+            {attendeeFields.map((field, index) => {
+              const attendeeErrors = errors.attendees?.[index];
+              return (
+                <div key={field.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="text"
+                      {...register(`attendees.${index}.name`)}
+                      aria-label={`Attendee ${index + 1} name`}
+                      aria-invalid={Boolean(attendeeErrors?.name)}
+                      placeholder="Name"
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    />
+                    <Input
+                      type="email"
+                      {...register(`attendees.${index}.email`, { deps: ['attendees'] })}
+                      aria-label={`Attendee ${index + 1} email`}
+                      aria-invalid={Boolean(attendeeErrors?.email)}
+                      placeholder="Email"
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="text"
+                      {...register(`attendees.${index}.role`)}
+                      aria-label={`Attendee ${index + 1} role`}
+                      placeholder="Role (optional)"
+                      className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    />
+                    <Controller
+                      control={control}
+                      name={`attendees.${index}.status`}
+                      render={({ field: statusField }) => (
+                        <Select value={statusField.value} onValueChange={statusField.onChange}>
+                          <SelectTrigger aria-label={`Attendee ${index + 1} RSVP`} className="w-32 focus:ring-2 focus:ring-blue-500">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {RSVP_STATUSES.map((status) => (
+                              <SelectItem key={status} value={status} className="hover:bg-blue-50">
+                                {RSVP_LABELS[status]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      onClick={() => removeAttendee(index)}
+                      aria-label={`Remove attendee ${index + 1}`}
+                      className="px-2 text-red-600 hover:bg-red-50"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <FieldError message={attendeeErrors?.name?.message} />
+                  <FieldError message={attendeeErrors?.email?.message} />
+                  <FieldError message={attendeeErrors?.role?.message} />
+                </div>
+              );
+            })}
+            <FieldError message={errors.attendees?.message || errors.attendees?.root?.message} />
           </div>
 
+          <Controller
+            control={control}
+            name="recurrence"
+            render={({ field }) => (
+              <RecurrenceFields value={field.value} onChange={field.onChange} startDate={startDateValue} />
+            )}
+          />
+
           <div className="space-y-2">
             <Label className="text-sm font-medium text-gray-700">Description</Label>
             <Textarea
-              name="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
+              {...register('description')}
+              aria-invalid={Boolean(errors.description)}
               className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors min-h-[100px]"
               placeholder="Add event description..."
             />
+            <FieldError message={errors.description?.message} />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Links</Label>
+            {links.length > 0 && (
+              <ul className="space-y-1">
+                {links.map((link) => (
+                  <li key={link} className="flex items-center gap-2 text-sm">
+                    <ExternalLink className="w-4 h-4 flex-shrink-0 text-gray-500" />
+                    <a href={link} target="_blank" rel="noopener noreferrer" className="flex-1 truncate text-blue-600 hover:underline">
+                      {link}
+                    </a>
+                    <button
+                      type="button"
+                      onClick={() => setValue('links', links.filter((other) => other !== link), { shouldDirty: true })}
+                      aria-label={`Remove ${link}`}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <Input
+                type="url"
+                value={newLink}
+                onChange={(e) => setNewLink(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addLink();
+                  }
+                }}
+                aria-label="New link"
+                aria-invalid={Boolean(linkError)}
+                className="flex-1 px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="https://meet.example.com/team-sync"
+              />
+              <Button type="button" onClick={addLink} disabled={!newLink.trim()} className="px-3 text-blue-600 hover:bg-blue-50">
+                Add link
+              </Button>
+            </div>
+            <FieldError message={linkError || errors.links?.message} />
           </div>
 
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Attachments</Label>
+            {attachments.length > 0 && (
+              <ul className="space-y-1">
+                {attachments.map((attachment) => (
+                  <li key={attachment.id} className="flex items-center gap-2 text-sm">
+                    <Paperclip className="w-4 h-4 flex-shrink-0 text-gray-500" />
+                    {isViewable(attachment) ? (
+                      <button
+                        type="button"
+                        onClick={() => handleOpenAttachment(attachment)}
+                        className="flex-1 truncate text-left text-blue-600 hover:underline"
+                      >
+                        {attachment.name}
+                      </button>
+                    ) : (
+                      <span className="flex-1 truncate">{attachment.name}</span>
+                    )}
+                    <span className="text-xs text-gray-500">{formatFileSize(attachment.size)}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleOpenAttachment(attachment, true)}
+                      aria-label={`Download ${attachment.name}`}
+                      className="p-1 hover:bg-blue-50 rounded"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setValue('attachments', attachments.filter(({ id }) => id !== attachment.id), { shouldDirty: true })
+                      }
+                      aria-label={`Remove ${attachment.name}`}
+                      className="p-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <Input
+              type="file"
+              multiple
+              disabled={isStoringFiles}
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+              aria-label="Attach files"
+              className="w-full text-sm"
+            />
+            {isStoringFiles && <p className="text-xs text-gray-600">Storing files…</p>}
+            <FieldError message={attachmentError} />
+          </div>
+
+          {isConfirmingClose && (
+            <div role="alert" className="flex items-center justify-between gap-3 p-3 border rounded-lg bg-yellow-50">
+              <span className="text-sm text-gray-700">Discard your unsaved changes?</span>
+              <div className="flex gap-2">
+                <Button type="button" onClick={() => setIsConfirmingClose(false)} className="px-3 py-1 text-sm">
+                  Keep editing
+                </Button>
+                <Button type="button" onClick={onClose} className="px-3 py-1 text-sm text-red-600 hover:bg-red-50">
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3 pt-4 border-t">
             {event && (
               <Button
@@ -191,6 +707,17 @@ const EventModal: React.FC<EventModalProps> = ({
                 Delete
               </Button>
             )}
+            <Button
+              type="button"
+              onClick={handleSubmit((values) => {
+                onSaveTemplate(toEventData(values), values.date);
+                setIsTemplateSaved(true);
+              })}
+              disabled={isTemplateSaved}
+              className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-60"
+            >
+              {isTemplateSaved ? 'Template saved' : 'Save as template'}
+            </Button>
             <Button
               type="submit"
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
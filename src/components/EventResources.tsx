@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Download, ExternalLink, Paperclip } from 'lucide-react';
+import { Attachment } from '../lib/eventSchema';
+import { formatFileSize, isViewable, openAttachment } from '../lib/attachments';
+
+interface EventResourcesProps {
+  links: string[];
+  attachments: Attachment[];
+}
+
+// An event's links and attached files, opened or downloaded from the sidebar
+const EventResources: React.FC<EventResourcesProps> = ({ links, attachments }) => {
+  const [error, setError] = useState('');
+
+  const open = (attachment: Attachment, download?: boolean) => {
+    setError('');
+    openAttachment(attachment, download).catch((err) =>
+      setError(err instanceof Error ? err.message : `Couldn't open ${attachment.name}`)
+    );
+  };
+
+  return (
+    <ul className="space-y-1 text-sm text-[#2A2A2A] font-mono">
+      {links.map((link) => (
+        <li key={link} className="flex items-center">
+          <ExternalLink className="w-4 h-4 mr-2 flex-shrink-0" />
+          <a href={link} target="_blank" rel="noopener noreferrer" className="truncate underline hover:no-underline">
+            {link.replace(/^https?:\/\//i, '')}
+          </a>
+        </li>
+      ))}
+      {attachments.map((attachment) => (
+        <li key={attachment.id} className="flex items-center gap-2">
+          <Paperclip className="w-4 h-4 flex-shrink-0" />
+          {isViewable(attachment) ? (
+            <button
+              type="button"
+              onClick={() => open(attachment)}
+              title={`Open ${attachment.name}`}
+              className="flex-1 truncate text-left underline hover:no-underline"
+            >
+              {attachment.name}
+            </button>
+          ) : (
+            <span className="flex-1 truncate">{attachment.name}</span>
+          )}
+          <span className="text-xs">{formatFileSize(attachment.size)}</span>
+          <button
+            type="button"
+            onClick={() => open(attachment, true)}
+            aria-label={`Download ${attachment.name}`}
+            className="p-1 border-2 border-transparent hover:border-[#2A2A2A]"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+        </li>
+      ))}
+      {error && (
+        <li role="alert" className="text-xs font-bold text-[#a11e1e]">
+          {error}
+        </li>
+      )}
+    </ul>
+  );
+};
+
+export default EventResources;
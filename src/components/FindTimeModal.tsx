@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
+import { Button } from './form/Buttons';
+import { Input } from './form/InputBox';
+import { Label } from './form/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './form/Select';
+import { Event, toDisplayEvents } from '../lib/events';
+import { Category } from '../lib/categories';
+import { expandEvents } from '../lib/recurrence';
+import { TimeSlot, findFreeSlots, toMinutes } from '../lib/freeSlots';
+import { addDaysToKey, dateFromKey, daysBetweenKeys, getTodayKey } from '../lib/dateKeys';
+
+interface FindTimeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  events: Record<string, Event[]>;
+  displayTimeZone: string;
+  categories: Category[];
+  onPickSlot: (slot: TimeSlot) => void;
+}
+
+const durationOptions = [15, 30, 45, 60, 90, 120, 180, 240];
+// Longest range scanned at once, to keep the result list readable
+const MAX_RANGE_DAYS = 31;
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+
+const FindTimeModal: React.FC<FindTimeModalProps> = ({
+  isOpen,
+  onClose,
+  events,
+  displayTimeZone,
+  categories,
+  onPickSlot,
+}) => {
+  const [duration, setDuration] = useState(60);
+  const [rangeStart, setRangeStart] = useState('');
+  const [rangeEnd, setRangeEnd] = useState('');
+  const [workdayStart, setWorkdayStart] = useState('09:00');
+  const [workdayEnd, setWorkdayEnd] = useState('17:00');
+  // Categories that don't count as busy; new categories count until unchecked
+  const [freeCategories, setFreeCategories] = useState<string[]>([]);
+
+  // Each time the finder opens it searches the coming week
+  useEffect(() => {
+    if (isOpen) {
+      const today = getTodayKey(displayTimeZone);
+      setRangeStart(today);
+      setRangeEnd(addDaysToKey(today, 6));
+    }
+  }, [isOpen, displayTimeZone]);
+
+  const rangeError =
+    !rangeStart || !rangeEnd || rangeEnd < rangeStart
+      ? 'Choose an end date on or after the start date.'
+      : daysBetweenKeys(rangeStart, rangeEnd) >= MAX_RANGE_DAYS
+        ? `Search at most ${MAX_RANGE_DAYS} days at a time.`
+        : workdayEnd <= workdayStart
+          ? 'Working hours must end after they start.'
+          : null;
+
+  const slotsByDay = useMemo(() => {
+    if (!isOpen || rangeError) return [];
+
+    // Multi-day events from the day before can still block the first morning
+    const busyEvents = toDisplayEvents(
+      expandEvents(events, addDaysToKey(rangeStart, -1), addDaysToKey(rangeEnd, 1)),
+      displayTimeZone
+    );
+    const slots = findFreeSlots(busyEvents, {
+      durationMinutes: duration,
+      rangeStart,
+      rangeEnd,
+      dayStartMinutes: toMinutes(workdayStart),
+      dayEndMinutes: toMinutes(workdayEnd),
+      stepMinutes: 30,
+      isBusy: (event) => !freeCategories.includes(event.category),
+    });
+
+    const days = new Map<string, TimeSlot[]>();
+    slots.forEach((slot) => days.set(slot.dateKey, [...(days.get(slot.dateKey) || []), slot]));
+    return [...days.entries()];
+  }, [isOpen, rangeError, events, displayTimeZone, duration, rangeStart, rangeEnd, workdayStart, workdayEnd, freeCategories]);
+
+  const toggleCategory = (category: Event['category']) => {
+    setFreeCategories((current) =>
+      current.includes(category) ? current.filter((free) => free !== category) : [...current, category]
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Find a time</DialogTitle>
+          <DialogDescription>Free slots in your calendar. Pick one to create an event there.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Duration</Label>
+            <Select value={String(duration)} onValueChange={(value) => setDuration(Number(value))}>
+              <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {durationOptions.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)} className="hover:bg-blue-50">
+                    {formatDuration(minutes)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Treat as busy</Label>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 min-h-10 items-center">
+              {categories.map((category) => (
+                <label key={category.id} className="flex items-center gap-1 text-sm font-mono">
+                  <input
+                    type="checkbox"
+                    checked={!freeCategories.includes(category.id)}
+                    onChange={() => toggleCategory(category.id)}
+                    className="w-4 h-4 accent-[#2A2A2A]"
+                  />
+                  {category.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">From</Label>
+            <Input type="date" value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">To</Label>
+            <Input type="date" value={rangeEnd} min={rangeStart} onChange={(e) => setRangeEnd(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Working hours from</Label>
+            <Input type="time" value={workdayStart} onChange={(e) => setWorkdayStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Until</Label>
+            <Input type="time" value={workdayEnd} onChange={(e) => setWorkdayEnd(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3 pt-4 border-t">
+          {rangeError ? (
+            <p className="text-sm font-mono font-bold text-[#a11e1e]">{rangeError}</p>
+          ) : slotsByDay.length === 0 ? (
+            <p className="text-sm font-mono text-gray-600">No free {formatDuration(duration)} slot in this range.</p>
+          ) : (
+            slotsByDay.map(([dateKey, slots]) => (
+              <div key={dateKey}>
+                <h3 className="text-sm font-bold font-mono mb-1">
+                  {dateFromKey(dateKey).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {slots.map((slot) => (
+                    <Button
+                      key={slot.startTime}
+                      type="button"
+                      onClick={() => onPickSlot(slot)}
+                      title={`${slot.startTime} - ${slot.endTime}`}
+                      className="rounded-none font-mono text-xs border-2 border-[#2A2A2A] hover:bg-[#98FB98]"
+                    >
+                      {slot.startTime}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FindTimeModal;
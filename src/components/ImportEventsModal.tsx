@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Upload, CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
+import { Button } from './form/Buttons';
+import { cn } from '../lib/utils';
+import { Event } from '../lib/events';
+import { Category } from '../lib/categories';
+import {
+  ImportPreviewItem,
+  buildImportPreview,
+  detectImportFormat,
+  parseImportFile,
+} from '../lib/importEvents';
+
+interface ImportEventsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  events: Record<string, Event[]>;
+  // Imported categories are matched to these by id or name
+  categories: Category[];
+  onImport: (accepted: { dateKey: string; event: Event }[]) => void;
+}
+
+const statusStyles: Record<ImportPreviewItem['status'], string> = {
+  add: 'bg-[#98FB98]',
+  conflict: 'bg-[#FFF8DC]',
+  skip: 'bg-[#F5F5F5]',
+};
+
+const ImportEventsModal: React.FC<ImportEventsModalProps> = ({
+  isOpen,
+  onClose,
+  events,
+  categories,
+  onImport,
+}) => {
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreviewItem[]>([]);
+  const [acceptedConflicts, setAcceptedConflicts] = useState<Set<number>>(new Set());
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName('');
+      setPreview([]);
+      setAcceptedConflicts(new Set());
+      setError('');
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setAcceptedConflicts(new Set());
+
+    try {
+      const content = await file.text();
+      const rows = parseImportFile(content, detectImportFormat(file.name, content), categories);
+      setPreview(buildImportPreview(rows, events));
+      setError('');
+    } catch (err) {
+      setPreview([]);
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const toggleConflict = (line: number) => {
+    const next = new Set(acceptedConflicts);
+    if (next.has(line)) {
+      next.delete(line);
+    } else {
+      next.add(line);
+    }
+    setAcceptedConflicts(next);
+  };
+
+  const accepted = preview.filter(
+    (item) => item.status === 'add' || (item.status === 'conflict' && acceptedConflicts.has(item.line))
+  );
+
+  const counts = {
+    add: preview.filter((item) => item.status === 'add').length,
+    conflict: preview.filter((item) => item.status === 'conflict').length,
+    skip: preview.filter((item) => item.status === 'skip').length,
+  };
+
+  const handleImport = () => {
+    onImport(
+      accepted.map((item) => ({ dateKey: item.dateKey!, event: item.event! }))
+    );
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Events</DialogTitle>
+          <DialogDescription>
+            Choose a JSON, CSV or iCalendar (.ics) file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center justify-center gap-2 h-12 bg-[#F0F8FF] text-[#2A2A2A] border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all font-mono font-bold cursor-pointer">
+          <Upload className="w-5 h-5" />
+          {fileName || 'Choose file'}
+          <input
+            type="file"
+            accept=".json,.csv,.ics,application/json,text/csv,text/calendar"
+            onChange={handleFileChange}
+            className="sr-only"
+          />
+        </label>
+
+        {error && (
+          <p className="text-sm font-mono font-bold text-[#a11e1e]">{error}</p>
+        )}
+
+        {preview.length > 0 && (
+          <>
+            <div className="flex gap-4 text-sm font-mono font-bold text-[#2A2A2A]">
+              <span>{counts.add} to add</span>
+              <span>{counts.conflict} in conflict</span>
+              <span>{counts.skip} skipped</span>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+              {preview.map((item) => (
+                <div
+                  key={item.line}
+                  className={cn(
+                    'border-2 border-[#2A2A2A] p-2 font-mono text-sm text-[#2A2A2A]',
+                    statusStyles[item.status]
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    {item.status === 'add' && <CheckCircle2 className="w-4 h-4 flex-shrink-0" />}
+                    {item.status === 'conflict' && (
+                      <input
+                        type="checkbox"
+                        checked={acceptedConflicts.has(item.line)}
+                        onChange={() => toggleConflict(item.line)}
+                        aria-label={`Import ${item.event?.title} anyway`}
+                        className="w-4 h-4 flex-shrink-0 accent-[#2A2A2A]"
+                      />
+                    )}
+                    {item.status === 'skip' && <XCircle className="w-4 h-4 flex-shrink-0" />}
+                    <span className="font-bold truncate">
+                      {item.event ? item.event.title : `Row ${item.line}`}
+                    </span>
+                    {item.event && (
+                      <span className="ml-auto text-xs whitespace-nowrap">
+                        {item.dateKey} {item.event.startTime} - {item.event.endTime}
+                      </span>
+                    )}
+                  </div>
+                  {item.reasons.map((reason) => (
+                    <p key={reason} className="mt-1 text-xs flex items-center gap-1">
+                      {item.status === 'conflict' && <AlertTriangle className="w-3 h-3 flex-shrink-0" />}
+                      {reason}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-none font-mono"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={accepted.length === 0}
+            className="px-4 py-2 bg-[#98FB98] text-[#2A2A2A] rounded-none font-mono"
+          >
+            Import {accepted.length} {accepted.length === 1 ? 'event' : 'events'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportEventsModal;
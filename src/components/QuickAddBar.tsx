@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Zap } from 'lucide-react';
+import { Input } from './form/InputBox';
+import { Event, formatEventTimeRange } from '../lib/events';
+import { Category, getCategoryName, getEventColor } from '../lib/categories';
+import { dateFromKey } from '../lib/dateKeys';
+import { QUICK_ADD_HELP, parseQuickAdd } from '../lib/quickAdd';
+
+interface QuickAddBarProps {
+  categories: Category[];
+  // Day that "today" and "tomorrow" count from, in the display time zone
+  todayKey: string;
+  onAdd: (event: Omit<Event, 'id'>, dateKey: string) => void;
+}
+
+const QuickAddBar: React.FC<QuickAddBarProps> = ({ categories, todayKey, onAdd }) => {
+  const [text, setText] = useState('');
+  const parsed = parseQuickAdd(text, todayKey, categories);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed || parsed.errors.length > 0) return;
+    onAdd(parsed.event, parsed.dateKey);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <Zap className="w-5 h-5 absolute left-4 top-1/2 transform -translate-y-1/2 text-[#2A2A2A]" />
+      <Input
+        type="text"
+        placeholder="Quick add: Lunch fri 12:30 #personal"
+        aria-label="Quick add event"
+        aria-describedby="quick-add-preview"
+        title={QUICK_ADD_HELP}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setText('');
+        }}
+        className="pl-12 w-80 h-12 bg-white border-4 border-[#2A2A2A] rounded-none shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all"
+      />
+
+      {/* Live preview of what Enter would add */}
+      <div id="quick-add-preview" aria-live="polite">
+        {parsed && (
+          <div className="absolute z-30 left-0 right-0 top-full mt-2 p-3 bg-white border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] font-mono text-sm text-[#2A2A2A]">
+            <div className="flex items-center gap-2">
+              <span
+                aria-hidden="true"
+                className="w-3 h-3 border border-[#2A2A2A] flex-shrink-0"
+                style={{ backgroundColor: getEventColor({ ...parsed.event, id: '' }, categories) }}
+              />
+              <span className="font-bold truncate">{parsed.event.title || 'Untitled'}</span>
+            </div>
+            <div className="mt-1 text-xs">
+              {dateFromKey(parsed.dateKey).toLocaleDateString('en-US', {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}
+              , {formatEventTimeRange({ ...parsed.event, id: '' }, parsed.dateKey)} ·{' '}
+              {getCategoryName(categories, parsed.event.category)}
+            </div>
+            {parsed.errors.length > 0 ? (
+              <ul className="mt-2 text-xs font-bold text-[#a11e1e]">
+                {parsed.errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-2 text-xs">Press Enter to add</p>
+            )}
+          </div>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default QuickAddBar;
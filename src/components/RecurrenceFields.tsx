@@ -0,0 +1,180 @@
+import React from 'react';
+import { Input } from './form/InputBox';
+import { Label } from './form/Label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './form/Select';
+import { cn } from '../lib/utils';
+import { RecurrenceFrequency, RecurrenceRule, getNthWeekday } from '../lib/recurrence';
+import { parseDateKey, toDateKey } from '../lib/dateKeys';
+
+interface RecurrenceFieldsProps {
+  value?: RecurrenceRule;
+  onChange: (value: RecurrenceRule | undefined) => void;
+  startDate: Date | null;
+}
+
+const weekDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ordinals = ['1st', '2nd', '3rd', '4th', 'last'];
+
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange, startDate }) => {
+  const startWeekday = startDate ? startDate.getDay() : 0;
+  const nthWeekday = startDate ? getNthWeekday(parseDateKey(toDateKey(startDate))) : 1;
+  const endMode = value?.until ? 'until' : value?.count !== undefined ? 'count' : 'never';
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      frequency,
+      interval: value?.interval || 1,
+      ...(frequency === 'weekly' && { weekdays: [startWeekday] }),
+      ...(frequency === 'monthly' && { monthlyMode: 'dayOfMonth' as const }),
+      ...(value?.until && { until: value.until }),
+      ...(value?.count !== undefined && { count: value.count }),
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const current = value.weekdays || [];
+    const weekdays = current.includes(weekday)
+      ? current.filter((day) => day !== weekday)
+      : [...current, weekday];
+    // A weekly rule always needs at least one day
+    if (weekdays.length === 0) return;
+    onChange({ ...value, weekdays });
+  };
+
+  const handleEndModeChange = (mode: 'never' | 'until' | 'count') => {
+    if (!value) return;
+    const rule: RecurrenceRule = { ...value };
+    delete rule.until;
+    delete rule.count;
+    if (mode === 'until') {
+      const defaultEnd = new Date(startDate || new Date());
+      defaultEnd.setMonth(defaultEnd.getMonth() + 1);
+      rule.until = toDateKey(defaultEnd);
+    } else if (mode === 'count') {
+      rule.count = 10;
+    }
+    onChange(rule);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4 items-end">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-700">Repeat</Label>
+          <Select value={value?.frequency || 'none'} onValueChange={handleFrequencyChange}>
+            <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+              <SelectValue placeholder="Does not repeat" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none" className="hover:bg-blue-50">Does not repeat</SelectItem>
+              <SelectItem value="daily" className="hover:bg-blue-50">Daily</SelectItem>
+              <SelectItem value="weekly" className="hover:bg-blue-50">Weekly</SelectItem>
+              <SelectItem value="monthly" className="hover:bg-blue-50">Monthly</SelectItem>
+              <SelectItem value="yearly" className="hover:bg-blue-50">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {value && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Every</Label>
+            <Input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex gap-1">
+          {weekDays.map((day, index) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(index)}
+              aria-pressed={value.weekdays?.includes(index)}
+              className={cn(
+                'flex-1 py-1 text-xs font-bold font-mono border-2 border-[#2A2A2A] transition-colors',
+                value.weekdays?.includes(index) ? 'bg-[#2A2A2A] text-white' : 'bg-white text-[#2A2A2A]'
+              )}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <Select
+          value={value.monthlyMode || 'dayOfMonth'}
+          onValueChange={(monthlyMode: 'dayOfMonth' | 'nthWeekday') => onChange({ ...value, monthlyMode })}
+        >
+          <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="dayOfMonth" className="hover:bg-blue-50">
+              On day {startDate?.getDate()}
+            </SelectItem>
+            <SelectItem value="nthWeekday" className="hover:bg-blue-50">
+              On the {ordinals[nthWeekday - 1]} {weekDays[startWeekday]}
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+
+      {value && (
+        <div className="grid grid-cols-2 gap-4 items-end">
+          <div className="space-y-2">
+            <Label className="text-sm font-medium text-gray-700">Ends</Label>
+            <Select value={endMode} onValueChange={handleEndModeChange}>
+              <SelectTrigger className="w-full focus:ring-2 focus:ring-blue-500">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never" className="hover:bg-blue-50">Never</SelectItem>
+                <SelectItem value="until" className="hover:bg-blue-50">On date</SelectItem>
+                <SelectItem value="count" className="hover:bg-blue-50">After</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {endMode === 'until' && (
+            <Input
+              type="date"
+              value={value.until}
+              onChange={(e) => onChange({ ...value, until: e.target.value })}
+              required
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          )}
+          {endMode === 'count' && (
+            <Input
+              type="number"
+              min={1}
+              value={value.count}
+              onChange={(e) => onChange({ ...value, count: Math.max(1, Number(e.target.value) || 1) })}
+              aria-label="Number of occurrences"
+              className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
+import { Button } from './form/Buttons';
+import { RecurrenceScope } from '../lib/recurrence';
+
+interface RecurrenceScopeDialogProps {
+  isOpen: boolean;
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  onClose: () => void;
+}
+
+const scopeOptions: { scope: RecurrenceScope; label: string }[] = [
+  { scope: 'this', label: 'This occurrence' },
+  { scope: 'following', label: 'This and following' },
+  { scope: 'all', label: 'All occurrences' },
+];
+
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+  isOpen,
+  action,
+  onSelect,
+  onClose,
+}) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[380px]">
+        <DialogHeader>
+          <DialogTitle>{action === 'edit' ? 'Edit recurring event' : 'Delete recurring event'}</DialogTitle>
+          <DialogDescription>
+            {action === 'edit' ? 'Apply your changes to:' : 'Which events should be deleted?'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-3">
+          {scopeOptions.map(({ scope, label }) => (
+            <Button
+              key={scope}
+              type="button"
+              onClick={() => onSelect(scope)}
+              className={
+                action === 'delete'
+                  ? 'rounded-none font-mono text-red-600 hover:bg-red-50'
+                  : 'rounded-none font-mono hover:bg-[#F0F8FF]'
+              }
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurrenceScopeDialog;
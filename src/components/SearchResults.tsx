@@ -0,0 +1,95 @@
+import React from 'react';
+import { Clock, Repeat, X } from 'lucide-react';
+import { Event, formatEventTimeRange } from '../lib/events';
+import { Category, getCategoryName, getEventColor } from '../lib/categories';
+import { dateFromKey } from '../lib/dateKeys';
+
+interface SearchResultsProps {
+  results: { dateKey: string; event: Event }[];
+  categories: Category[];
+  // Problems with the query, e.g. a malformed date
+  errors: string[];
+  onSelect: (result: { dateKey: string; event: Event }) => void;
+  onClear: () => void;
+}
+
+// Long result lists are cut off; a narrower query finds the rest
+const MAX_RESULTS = 200;
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, categories, errors, onSelect, onClear }) => {
+  const shown = results.slice(0, MAX_RESULTS);
+  const groups: [string, typeof shown][] = [];
+  shown.forEach((result) => {
+    const last = groups[groups.length - 1];
+    if (last && last[0] === result.dateKey) {
+      last[1].push(result);
+    } else {
+      groups.push([result.dateKey, [result]]);
+    }
+  });
+
+  return (
+    <>
+      <div className="p-6 border-b-4 border-[#2A2A2A] bg-[#FFF8DC] flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-[#2A2A2A] font-mono">Search Results</h2>
+          <p className="text-sm text-[#2A2A2A] mt-2 font-mono" aria-live="polite">
+            {results.length === 1 ? '1 event' : `${results.length} events`}
+            {results.length > MAX_RESULTS && `, showing the first ${MAX_RESULTS}`}
+          </p>
+        </div>
+        <button onClick={onClear} aria-label="Clear search" className="p-1 hover:bg-white transition-colors">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <div className="flex-1 p-6 overflow-y-auto space-y-6">
+        {errors.map((error) => (
+          <p key={error} role="alert" className="text-sm font-mono font-bold text-[#a11e1e]">
+            {error}
+          </p>
+        ))}
+        {results.length === 0 && errors.length === 0 && (
+          <p className="text-sm font-mono text-[#2A2A2A]">No events match your search.</p>
+        )}
+        {groups.map(([dateKey, dayResults]) => (
+          <section key={dateKey}>
+            <h3 className="text-sm font-bold font-mono text-[#2A2A2A] mb-2">
+              {dateFromKey(dateKey).toLocaleDateString('en-US', {
+                weekday: 'short',
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+              })}
+            </h3>
+            <div className="space-y-2">
+              {dayResults.map((result) => (
+                <button
+                  key={`${result.dateKey}:${result.event.id}`}
+                  onClick={() => onSelect(result)}
+                  className="w-full text-left bg-white border-4 border-[#2A2A2A] rounded-none p-3 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] transition-all font-mono"
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      aria-hidden="true"
+                      className="w-3 h-3 border border-[#2A2A2A] flex-shrink-0"
+                      style={{ backgroundColor: getEventColor(result.event, categories) }}
+                    />
+                    <span className="font-bold text-[#2A2A2A] truncate">{result.event.title}</span>
+                    {result.event.recurrence && <Repeat className="w-3 h-3 flex-shrink-0" aria-label="Repeats" />}
+                  </div>
+                  <div className="mt-1 text-xs text-[#2A2A2A] flex items-center">
+                    <Clock className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {formatEventTimeRange(result.event, result.dateKey)}
+                    <span className="ml-auto">{getCategoryName(categories, result.event.category)}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          </section>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,308 @@
+import React, { useState, useEffect } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from './form/Box';
+import { Button } from './form/Buttons';
+import { Input } from './form/InputBox';
+import { Label } from './form/Label';
+import { Textarea } from './form/TextField';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './form/Select';
+import { Category, findCategory, getCategoryName, getDefaultCategoryId } from '../lib/categories';
+import { generateEventId } from '../lib/events';
+import { EventTemplate, formatDuration, templateSchema } from '../lib/templates';
+
+interface TemplateManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  templates: EventTemplate[];
+  categories: Category[];
+  onChange: (templates: EventTemplate[]) => void;
+}
+
+// The template form keeps the length as hours and minutes typed by the user
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  title: string;
+  startTime: string;
+  hours: string;
+  minutes: string;
+  category: string;
+  color?: string;
+  description: string;
+}
+
+const emptyDraft = (categories: Category[]): TemplateDraft => ({
+  name: '',
+  title: '',
+  startTime: '09:00',
+  hours: '1',
+  minutes: '0',
+  category: getDefaultCategoryId(categories),
+  description: '',
+});
+
+const toDraft = (template: EventTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  title: template.title,
+  startTime: template.startTime,
+  hours: String(Math.floor(template.durationMinutes / 60)),
+  minutes: String(template.durationMinutes % 60),
+  category: template.category,
+  color: template.color,
+  description: template.description || '',
+});
+
+const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({
+  isOpen,
+  onClose,
+  templates,
+  categories,
+  onChange,
+}) => {
+  // Template being added or edited; null while only the list is shown
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(null);
+      setErrors([]);
+    }
+  }, [isOpen]);
+
+  const edit = (next: TemplateDraft | null) => {
+    setDraft(next);
+    setErrors([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const result = templateSchema.safeParse({
+      id: draft.id || generateEventId(),
+      name: draft.name,
+      title: draft.title,
+      startTime: draft.startTime,
+      durationMinutes: Number(draft.hours || 0) * 60 + Number(draft.minutes || 0),
+      category: draft.category,
+      ...(draft.color && { color: draft.color }),
+      ...(draft.description.trim() && { description: draft.description }),
+    });
+    if (!result.success) {
+      setErrors(result.error.issues.map((issue) => issue.message));
+      return;
+    }
+    onChange(
+      draft.id
+        ? templates.map((template) => (template.id === draft.id ? result.data : template))
+        : [...templates, result.data]
+    );
+    edit(null);
+  };
+
+  const categoryColor = draft && findCategory(categories, draft.category)?.color;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Templates</DialogTitle>
+          <DialogDescription>
+            Save the details of events you create often, then add them to a day in one click.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {templates.length === 0 && (
+            <li className="p-2 font-mono text-sm text-gray-600">No templates yet.</li>
+          )}
+          {templates.map((template) => (
+            <li
+              key={template.id}
+              className={`flex items-center gap-2 p-2 border-2 border-[#2A2A2A] font-mono text-sm ${
+                draft?.id === template.id ? 'bg-[#FFF8DC]' : ''
+              }`}
+            >
+              <span
+                aria-hidden="true"
+                className="w-3 h-3 border border-[#2A2A2A] flex-shrink-0"
+                style={{ backgroundColor: template.color || findCategory(categories, template.category)?.color }}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="font-bold truncate">{template.name}</p>
+                <p className="text-xs text-gray-600 truncate">
+                  {template.title} · {template.startTime} for {formatDuration(template.durationMinutes)} ·{' '}
+                  {getCategoryName(categories, template.category)}
+                </p>
+              </div>
+              <Button
+                type="button"
+                onClick={() => edit(toDraft(template))}
+                aria-label={`Edit ${template.name}`}
+                className="rounded-none hover:bg-[#F0F8FF] flex-shrink-0"
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                onClick={() => {
+                  onChange(templates.filter((other) => other.id !== template.id));
+                  if (draft?.id === template.id) edit(null);
+                }}
+                aria-label={`Delete ${template.name}`}
+                className="rounded-none text-red-600 hover:bg-red-50 flex-shrink-0"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {draft ? (
+          <form onSubmit={handleSubmit} noValidate className="space-y-3 pt-4 border-t font-mono text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Template name *</Label>
+                <Input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Weekly 1:1"
+                  maxLength={40}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Event title *</Label>
+                <Input
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                  placeholder="1:1 with Sam"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label>Start time *</Label>
+                <Input
+                  type="time"
+                  value={draft.startTime}
+                  onChange={(e) => setDraft({ ...draft, startTime: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Hours</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={draft.hours}
+                  onChange={(e) => setDraft({ ...draft, hours: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Minutes</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={59}
+                  step={5}
+                  value={draft.minutes}
+                  onChange={(e) => setDraft({ ...draft, minutes: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 items-end">
+              <div className="space-y-1">
+                <Label>Category *</Label>
+                <Select value={draft.category} onValueChange={(category) => setDraft({ ...draft, category })}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(({ id, name, color }) => (
+                      <SelectItem key={id} value={id} className="hover:bg-[#F0F8FF]">
+                        <span className="inline-block w-3 h-3 mr-2 border border-[#2A2A2A]" style={{ backgroundColor: color }} />
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <Label>Color</Label>
+                  {draft.color && (
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, color: undefined })}
+                      className="text-xs hover:underline"
+                    >
+                      Use category color
+                    </button>
+                  )}
+                </div>
+                <Input
+                  type="color"
+                  value={draft.color || categoryColor || '#808080'}
+                  onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+                  className="w-full h-10 p-1 cursor-pointer"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Description</Label>
+              <Textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className="min-h-[80px]"
+              />
+            </div>
+
+            {errors.length > 0 && (
+              <ul role="alert" className="text-sm font-bold text-[#a11e1e]">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" onClick={() => edit(null)} className="rounded-none hover:bg-[#F0F8FF]">
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="rounded-none bg-[#98FB98] text-[#2A2A2A] border-2 border-[#2A2A2A] font-mono"
+              >
+                {draft.id ? 'Save template' : 'Add template'}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex justify-end pt-4 border-t">
+            <Button
+              type="button"
+              onClick={() => edit(emptyDraft(categories))}
+              className="rounded-none bg-[#98FB98] text-[#2A2A2A] border-2 border-[#2A2A2A] font-mono"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              New template
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateManagerModal;
@@ -0,0 +1,327 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cn } from '../lib/utils';
+import { Event, formatEventTimeRange, getEventEndDateKey } from '../lib/events';
+import { TimedSegment, layoutTimedEvents } from '../lib/eventLayout';
+import { addDaysToKey, toDateKey } from '../lib/dateKeys';
+import { Category, getEventColor } from '../lib/categories';
+import { getEventDurationMinutes, toMinutes, toTime } from '../lib/freeSlots';
+
+// New start (and end) for an event dragged on the time grid, on the display clock
+export interface TimeChange {
+  dateKey: string;
+  startTime: string;
+  endTime: string;
+  // Set when the event now ends on a later day
+  endDate?: string;
+}
+
+interface TimeGridViewProps {
+  days: Date[];
+  events: Record<string, Event[]>;
+  categories: Category[];
+  onDaySelect: (date: Date) => void;
+  onEventClick: (e: React.SyntheticEvent, event: Event, date: Date, eventDateKey?: string) => void;
+  // A drag moved or resized an event; eventDateKey is the day it started on before
+  onEventTimeChange: (event: Event, eventDateKey: string, change: TimeChange) => void;
+  // "<dateKey>:<eventId>" of events picked for bulk actions
+  selectedEventKeys: string[];
+  isToday: (date: Date) => boolean;
+  isSelected: (date: Date) => boolean | null;
+}
+
+// Pixel height of one hour on the timeline
+const HOUR_HEIGHT = 48;
+// Events shorter than this still get a readable block
+const MIN_EVENT_HEIGHT = 20;
+// Drags snap to this many minutes
+const SNAP_MINUTES = 15;
+// Pointer movement below this many pixels is a click, not a drag
+const DRAG_THRESHOLD = 4;
+const DAY_MINUTES = 24 * 60;
+const hours = Array.from({ length: 24 }, (_, hour) => hour);
+
+// An event being moved or resized with the pointer
+interface DragState {
+  segment: TimedSegment;
+  mode: 'move' | 'resize';
+  // Day column and pointer position the drag started from
+  fromColumn: string;
+  pointerX: number;
+  pointerY: number;
+  columns: { dateKey: string; left: number; right: number }[];
+  // Where the event would land: its start day and minutes from midnight of that day
+  dateKey: string;
+  startMinutes: number;
+  endMinutes: number;
+  hasMoved: boolean;
+}
+
+const snap = (minutes: number) => Math.round(minutes / SNAP_MINUTES) * SNAP_MINUTES;
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Start and end minutes on a start day as the times and end date an event is saved with
+const toTimeChange = (dateKey: string, startMinutes: number, endMinutes: number): TimeChange => {
+  const endDate = addDaysToKey(dateKey, Math.floor(endMinutes / DAY_MINUTES));
+  return {
+    dateKey,
+    startTime: toTime(startMinutes),
+    endTime: toTime(endMinutes % DAY_MINUTES),
+    ...(endDate > dateKey && { endDate }),
+  };
+};
+
+const TimeGridView: React.FC<TimeGridViewProps> = ({
+  days,
+  events,
+  categories,
+  onDaySelect,
+  onEventClick,
+  onEventTimeChange,
+  selectedEventKeys,
+  isToday,
+  isSelected,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // The click that ends a drag shouldn't also open the event
+  const suppressClickRef = useRef(false);
+
+  // Start the timeline at the beginning of a working day
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = 8 * HOUR_HEIGHT;
+    }
+  }, []);
+
+  const columnsClass = days.length === 1 ? 'grid-cols-[56px_1fr]' : 'grid-cols-[56px_repeat(7,1fr)]';
+
+  const handlePointerDown = (
+    e: React.PointerEvent,
+    segment: TimedSegment,
+    mode: DragState['mode'],
+    columnKey: string
+  ) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const columns = Array.from(gridRef.current?.querySelectorAll<HTMLElement>('[data-day-column]') || []).map(
+      (column) => {
+        const rect = column.getBoundingClientRect();
+        return { dateKey: column.dataset.dayColumn || '', left: rect.left, right: rect.right };
+      }
+    );
+    const startMinutes = toMinutes(segment.event.startTime);
+    setDrag({
+      segment,
+      mode,
+      fromColumn: columnKey,
+      pointerX: e.clientX,
+      pointerY: e.clientY,
+      columns,
+      dateKey: segment.dateKey,
+      startMinutes,
+      endMinutes: startMinutes + getEventDurationMinutes(segment.event, segment.dateKey),
+      hasMoved: false,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const deltaX = e.clientX - drag.pointerX;
+    const deltaY = e.clientY - drag.pointerY;
+    if (!drag.hasMoved && Math.abs(deltaX) < DRAG_THRESHOLD && Math.abs(deltaY) < DRAG_THRESHOLD) return;
+
+    const deltaMinutes = (deltaY / HOUR_HEIGHT) * 60;
+    const originalStart = toMinutes(drag.segment.event.startTime);
+    const duration = getEventDurationMinutes(drag.segment.event, drag.segment.dateKey);
+
+    if (drag.mode === 'resize') {
+      const endMinutes = clamp(snap(originalStart + duration + deltaMinutes), originalStart + SNAP_MINUTES, DAY_MINUTES);
+      setDrag({ ...drag, endMinutes, hasMoved: true });
+      return;
+    }
+
+    // The column under the pointer decides the day, counted from the column the drag began in
+    const column = drag.columns.findIndex((candidate) => e.clientX >= candidate.left && e.clientX < candidate.right);
+    const fromIndex = drag.columns.findIndex((candidate) => candidate.dateKey === drag.fromColumn);
+    const dayOffset = column === -1 || fromIndex === -1 ? 0 : column - fromIndex;
+    const startMinutes = clamp(snap(originalStart + deltaMinutes), 0, DAY_MINUTES - SNAP_MINUTES);
+    setDrag({
+      ...drag,
+      dateKey: addDaysToKey(drag.segment.dateKey, dayOffset),
+      startMinutes,
+      endMinutes: startMinutes + duration,
+      hasMoved: true,
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (!drag.hasMoved) return;
+    suppressClickRef.current = true;
+    const change = toTimeChange(drag.dateKey, drag.startMinutes, drag.endMinutes);
+    const { event, dateKey } = drag.segment;
+    const isUnchanged =
+      change.dateKey === dateKey &&
+      change.startTime === event.startTime &&
+      change.endTime === event.endTime &&
+      (change.endDate || dateKey) === getEventEndDateKey(event, dateKey);
+    if (!isUnchanged) onEventTimeChange(event, dateKey, change);
+  };
+
+  const handleEventActivate = (e: React.SyntheticEvent, segment: TimedSegment, date: Date) => {
+    e.stopPropagation();
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    onEventClick(e, segment.event, date, segment.dateKey);
+  };
+
+  const isDragging = (segment: TimedSegment) =>
+    drag?.hasMoved && drag.segment.event.id === segment.event.id && drag.segment.dateKey === segment.dateKey;
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Day Headers */}
+      <div className={cn('grid gap-2 mb-2', columnsClass)}>
+        <div />
+        {days.map((date) => (
+          <button
+            key={toDateKey(date)}
+            onClick={() => onDaySelect(date)}
+            className={cn(
+              'text-center py-2 font-bold text-sm font-mono border-4 border-[#2A2A2A] bg-[#F0F8FF] text-[#2A2A2A]',
+              (date.getDay() === 0 || date.getDay() === 6) && 'text-[#FF6B6B]',
+              isToday(date) && 'bg-[#FFF8DC]',
+              isSelected(date) && 'bg-[#E6F3FF]'
+            )}
+          >
+            {date.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })}
+          </button>
+        ))}
+      </div>
+
+      {/* Hourly Timeline */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto min-h-0 border-4 border-[#2A2A2A]">
+        <div
+          ref={gridRef}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+          className={cn('grid gap-2 relative', columnsClass, drag?.hasMoved && 'select-none')}
+          style={{ height: 24 * HOUR_HEIGHT }}
+        >
+          <div className="relative">
+            {hours.map((hour) => (
+              <div
+                key={hour}
+                className="absolute right-1 text-[10px] font-bold font-mono text-[#2A2A2A] -translate-y-1/2"
+                style={{ top: hour * HOUR_HEIGHT }}
+              >
+                {hour > 0 && `${hour.toString().padStart(2, '0')}:00`}
+              </div>
+            ))}
+          </div>
+
+          {days.map((date) => {
+            const dateKey = toDateKey(date);
+            const segments = layoutTimedEvents(events, dateKey);
+
+            return (
+              <div
+                key={dateKey}
+                data-day-column={dateKey}
+                onClick={() => onDaySelect(date)}
+                className={cn(
+                  'relative border-x-2 border-[#2A2A2A]/20 cursor-pointer',
+                  isToday(date) && 'bg-[#FFF8DC]/60',
+                  isSelected(date) && 'bg-[#E6F3FF]/60'
+                )}
+              >
+                {hours.map((hour) => (
+                  <div
+                    key={hour}
+                    className="absolute inset-x-0 border-t border-[#2A2A2A]/20"
+                    style={{ top: hour * HOUR_HEIGHT }}
+                  />
+                ))}
+
+                {segments.map((segment) => {
+                  // Only events that start and end on this day can be resized here
+                  const canResize =
+                    segment.dateKey === dateKey && getEventEndDateKey(segment.event, segment.dateKey) === dateKey;
+                  return (
+                    <div
+                      key={`${segment.dateKey}:${segment.event.id}`}
+                      role="button"
+                      tabIndex={0}
+                      onPointerDown={(e) => handlePointerDown(e, segment, 'move', dateKey)}
+                      onClick={(e) => handleEventActivate(e, segment, date)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleEventActivate(e, segment, date);
+                      }}
+                      className={cn(
+                        'absolute z-10 overflow-hidden text-left text-xs p-1 border-2 border-[#2A2A2A] font-mono touch-none cursor-grab',
+                        'shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] hover:shadow-[1px_1px_0px_0px_rgba(0,0,0,1)] transition-shadow',
+                        isDragging(segment) && 'opacity-40',
+                        selectedEventKeys.includes(`${segment.dateKey}:${segment.event.id}`) && 'ring-4 ring-[#FF6B6B]'
+                      )}
+                      style={{
+                        top: (segment.startMinutes / 60) * HOUR_HEIGHT,
+                        height: Math.max(
+                          ((segment.endMinutes - segment.startMinutes) / 60) * HOUR_HEIGHT,
+                          MIN_EVENT_HEIGHT
+                        ),
+                        left: `calc(${(segment.column / segment.columnCount) * 100}% + 2px)`,
+                        width: `calc(${100 / segment.columnCount}% - 4px)`,
+                        backgroundColor: getEventColor(segment.event, categories),
+                      }}
+                    >
+                      <div className="font-bold truncate">{segment.event.title}</div>
+                      <div className="text-[10px] truncate opacity-75">
+                        {formatEventTimeRange(segment.event, segment.dateKey)}
+                      </div>
+                      {canResize && (
+                        <div
+                          aria-hidden="true"
+                          title="Drag to change the end time"
+                          onPointerDown={(e) => handlePointerDown(e, segment, 'resize', dateKey)}
+                          className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+                {/* Where the dragged event would land */}
+                {drag?.hasMoved && drag.dateKey === dateKey && (
+                  <div
+                    className="absolute z-20 inset-x-0.5 p-1 text-xs font-mono border-2 border-dashed border-[#2A2A2A] pointer-events-none"
+                    style={{
+                      top: (drag.startMinutes / 60) * HOUR_HEIGHT,
+                      height: Math.max(
+                        ((Math.min(drag.endMinutes, DAY_MINUTES) - drag.startMinutes) / 60) * HOUR_HEIGHT,
+                        MIN_EVENT_HEIGHT
+                      ),
+                      backgroundColor: getEventColor(drag.segment.event, categories),
+                    }}
+                  >
+                    <div className="font-bold truncate">{drag.segment.event.title}</div>
+                    <div className="text-[10px] font-bold">
+                      {toTime(drag.startMinutes)} - {toTime(drag.endMinutes % DAY_MINUTES)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimeGridView;
@@ -0,0 +1,50 @@
+import React, { useEffect } from 'react';
+import { X } from 'lucide-react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  // Hides the toast after this many milliseconds
+  duration?: number;
+  // Reminders show at the top so they don't cover the Undo toast
+  placement?: 'top' | 'bottom';
+}
+
+const Toast: React.FC<ToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 6000,
+  placement = 'bottom',
+}) => {
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className={`fixed ${placement === 'top' ? 'top-8' : 'bottom-8'} left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-[#2A2A2A] text-white border-4 border-[#2A2A2A] shadow-[4px_4px_0px_0px_rgba(0,0,0,0.4)] font-mono text-sm`}
+    >
+      <span>{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={onAction}
+          className="px-3 py-1 bg-[#FFE4E1] text-[#2A2A2A] font-bold border-2 border-white hover:bg-white transition-colors"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button onClick={onDismiss} aria-label="Dismiss" className="opacity-75 hover:opacity-100">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
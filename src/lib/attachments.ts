@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { Attachment, Event } from "./eventSchema";
+import { generateEventId, listEvents } from "./events";
+import { HistoryState } from "./history";
+import { ATTACHMENT_STORE, openDatabase, requestToPromise, transactionDone } from "./eventRepository";
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Files unreferenced for this long are removed; newer ones may belong to an event still being edited
+const PRUNE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Types safe to open in a new tab; anything else, such as HTML, is only downloaded
+const VIEWABLE_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/gif", "image/webp", "text/plain"];
+
+interface StoredAttachment extends Attachment {
+  blob: Blob;
+  createdAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("Attachments need IndexedDB, which this browser doesn't allow"));
+  }
+  databasePromise ||= openDatabase().catch((error) => {
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+};
+
+export const isViewable = (attachment: Attachment): boolean => VIEWABLE_TYPES.includes(attachment.type);
+
+// Size for display, e.g. "820 B", "14 KB" or "2.5 MB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Stores a file and returns the details to keep on the event
+export async function saveAttachment(file: File): Promise<Attachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+  const attachment: Attachment = { id: generateEventId(), name: file.name, type: file.type, size: file.size };
+  const database = await getDatabase();
+  const transaction = database.transaction(ATTACHMENT_STORE, "readwrite");
+  const record: StoredAttachment = { ...attachment, blob: file, createdAt: Date.now() };
+  transaction.objectStore(ATTACHMENT_STORE).put(record);
+  await transactionDone(transaction);
+  return attachment;
+}
+
+export async function loadAttachmentBlob(attachment: Attachment): Promise<Blob> {
+  const database = await getDatabase();
+  const store = database.transaction(ATTACHMENT_STORE, "readonly").objectStore(ATTACHMENT_STORE);
+  const record = await requestToPromise<StoredAttachment | undefined>(store.get(attachment.id));
+  if (!record) throw new Error(`${attachment.name} is no longer stored in this browser`);
+  return record.blob;
+}
+
+// Opens viewable files in a new tab and downloads the rest
+export async function openAttachment(attachment: Attachment, download = !isViewable(attachment)) {
+  const blob = await loadAttachmentBlob(attachment);
+  const url = URL.createObjectURL(blob.type ? blob : new Blob([blob], { type: attachment.type }));
+  if (download) {
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.name;
+    link.click();
+  } else {
+    window.open(url, "_blank", "noopener");
+  }
+  // Left long enough for the new tab or download to read it
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+}
+
+// Undo history stays in its own tab but stored files are shared, so every open page lists
+// the files its history refers to here, keyed by an id of its own
+const HISTORY_ATTACHMENTS_STORAGE_KEY = "calendar_history_attachments";
+const pageId = Math.random().toString(36).slice(2);
+
+function loadHistoryAttachments(): Record<string, string[]> {
+  try {
+    const stored = localStorage.getItem(HISTORY_ATTACHMENTS_STORAGE_KEY);
+    const parsed = z.record(z.array(z.string())).safeParse(stored ? JSON.parse(stored) : {});
+    return parsed.success ? parsed.data : {};
+  } catch (error) {
+    console.error("Error loading attachments of undo history:", error);
+    return {};
+  }
+}
+
+function saveHistoryAttachments(pages: Record<string, string[]>) {
+  try {
+    localStorage.setItem(HISTORY_ATTACHMENTS_STORAGE_KEY, JSON.stringify(pages));
+  } catch (error) {
+    console.error("Error saving attachments of undo history:", error);
+  }
+}
+
+const listHistoryAttachments = (history: HistoryState): string[] =>
+  [...history.past, ...history.future].flatMap(({ changes }) =>
+    changes.flatMap(({ before, after }) =>
+      [before?.event, after?.event].flatMap((event) => (event?.attachments || []).map(({ id }) => id))
+    )
+  );
+
+// Records the files this page's undo history refers to, so other tabs don't prune them
+export function shareHistoryAttachments(history: HistoryState) {
+  const pages = loadHistoryAttachments();
+  const ids = [...new Set(listHistoryAttachments(history))];
+  if (ids.length > 0) {
+    pages[pageId] = ids;
+  } else {
+    delete pages[pageId];
+  }
+  saveHistoryAttachments(pages);
+}
+
+// Drops this page's entry once its history is gone, e.g. when the tab closes or reloads
+export function releaseHistoryAttachments() {
+  const pages = loadHistoryAttachments();
+  delete pages[pageId];
+  saveHistoryAttachments(pages);
+}
+
+// Files used by stored events or by events in any open tab's undo history, so undoing a
+// delete brings its files back
+export function listReferencedAttachments(events: Record<string, Event[]>, history: HistoryState): Set<string> {
+  const eventAttachments = listEvents(events).flatMap(({ event }) => (event.attachments || []).map(({ id }) => id));
+  return new Set([
+    ...eventAttachments,
+    ...listHistoryAttachments(history),
+    ...Object.values(loadHistoryAttachments()).flat(),
+  ]);
+}
+
+// Deletes stored files no event refers to anymore
+export async function pruneAttachments(keep: Set<string>) {
+  const database = await getDatabase();
+  const transaction = database.transaction(ATTACHMENT_STORE, "readwrite");
+  const store = transaction.objectStore(ATTACHMENT_STORE);
+  const records = await requestToPromise<StoredAttachment[]>(store.getAll());
+  records
+    .filter(({ id, createdAt }) => !keep.has(id) && Date.now() - createdAt > PRUNE_AFTER_MS)
+    .forEach(({ id }) => store.delete(id));
+  await transactionDone(transaction);
+}
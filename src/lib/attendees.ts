@@ -0,0 +1,60 @@
+import { Attendee, RSVP_STATUSES, RsvpStatus } from "./eventSchema";
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  tentative: "Tentative",
+  declined: "Declined",
+};
+
+// Up to two initials for an avatar, e.g. "Ada Lovelace" -> "AL"
+export const getInitials = (name: string): string =>
+  name
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => part[0])
+    .filter((_, index, parts) => index === 0 || index === parts.length - 1)
+    .join("")
+    .toUpperCase() || "?";
+
+// One attendee as written in CSV files: `Name <email> (role) [status]`
+const ATTENDEE_PATTERN = /^(.*?)\s*<([^>]*)>\s*(?:\(([^)]*)\))?\s*(?:\[([^\]]*)\])?$/;
+
+const formatAttendee = ({ name, email, role, status }: Attendee) =>
+  `${name} <${email}>${role ? ` (${role})` : ""} [${status}]`;
+
+// Attendees as one ";"-separated CSV field
+export const formatAttendeeList = (attendees: Attendee[] = []): string => attendees.map(formatAttendee).join("; ");
+
+const asRsvpStatus = (value: unknown): RsvpStatus | string => {
+  const status = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return status ? (RSVP_STATUSES.find((candidate) => candidate === status) ?? status) : "pending";
+};
+
+// Raw attendees from an import: an array of objects in JSON, or a ";"-separated list in
+// CSV. Entries that can't be read are kept as they are so validation reports them.
+export function readAttendees(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      item && typeof item === "object"
+        ? { ...(item as Record<string, unknown>), status: asRsvpStatus((item as Record<string, unknown>).status) }
+        : { name: String(item), email: "", status: "pending" }
+    );
+  }
+  if (typeof value !== "string") return [];
+  return value
+    .split(";")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(ATTENDEE_PATTERN);
+      if (!match) return { name: entry, email: "", status: "pending" };
+      const [, name, email, role, status] = match;
+      return { name, email, ...(role?.trim() && { role }), status: asRsvpStatus(status) };
+    });
+}
+
+// Whether an attendee's name or email contains the lowercase text
+export const attendeeMatches = ({ name, email }: Attendee, text: string): boolean =>
+  name.toLowerCase().includes(text) || email.toLowerCase().includes(text);
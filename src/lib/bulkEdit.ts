@@ -0,0 +1,199 @@
+import {
+  Event,
+  convertEventTimeZone,
+  generateEventId,
+  getEventEndDateKey,
+  hasTimeOverlap,
+  listEvents,
+  toDisplayEvents,
+} from "./events";
+import { deleteOccurrence, expandEvents, moveOccurrence, shiftEndDate, updateOccurrence } from "./recurrence";
+import { addDaysToKey } from "./dateKeys";
+
+// An event as shown on the calendar: on the display clock, under the day it starts on
+export interface EventEntry {
+  dateKey: string;
+  event: Event;
+}
+
+// One change applied to every selected event. Recurring events change only the selected
+// occurrence, which becomes a standalone event like a single-occurrence edit.
+export type BulkAction =
+  | { type: "move"; dateKey: string }
+  | { type: "shift"; days: number }
+  | { type: "category"; category: string }
+  // Without a color, events go back to their category's color
+  | { type: "color"; color?: string }
+  | { type: "duplicate" }
+  | { type: "delete" };
+
+export interface BulkFailure {
+  entry: EventEntry;
+  conflicts: EventEntry[];
+}
+
+export interface BulkResult {
+  events: Record<string, Event[]>;
+  applied: EventEntry[];
+  // Selected events left as they were because the change would make them overlap others
+  failures: BulkFailure[];
+}
+
+export const getEntryKey = ({ dateKey, event }: EventEntry): string => `${dateKey}:${event.id}`;
+
+const changesTime = (action: BulkAction) =>
+  action.type === "move" || action.type === "shift" || action.type === "duplicate";
+
+const getTargetKey = (entry: EventEntry, action: BulkAction) =>
+  action.type === "move"
+    ? action.dateKey
+    : action.type === "shift"
+      ? addDaysToKey(entry.dateKey, action.days)
+      : entry.dateKey;
+
+const toStoredEntry = ({ dateKey, event }: EventEntry, displayTimeZone: string): EventEntry =>
+  event.timeZone ? convertEventTimeZone(event, dateKey, displayTimeZone, event.timeZone) : { dateKey, event };
+
+const withoutId = (event: Event): Omit<Event, "id"> => {
+  const data: Partial<Event> = { ...event };
+  delete data.id;
+  return data as Omit<Event, "id">;
+};
+
+const removeEvent = (events: Record<string, Event[]>, dateKey: string, id: string) => {
+  const remaining = (events[dateKey] || []).filter((event) => event.id !== id);
+  const updated = { ...events, [dateKey]: remaining };
+  if (remaining.length === 0) delete updated[dateKey];
+  return updated;
+};
+
+const addEvent = (events: Record<string, Event[]>, dateKey: string, event: Event) => ({
+  ...events,
+  [dateKey]: [...(events[dateKey] || []), event],
+});
+
+// Selected events that would overlap others once the action is applied. Events stay
+// put when their change fails, so checks repeat until no new failures turn up.
+function findBulkConflicts(nearby: EventEntry[], selection: EventEntry[], action: BulkAction): BulkFailure[] {
+  const targets = selection.map((entry) => {
+    const dateKey = getTargetKey(entry, action);
+    return { entry, target: { dateKey, event: shiftEndDate(entry.event, entry.dateKey, dateKey) } };
+  });
+  // Duplicates leave their originals in place; moved events leave their old spot free
+  const moving = new Set(action.type === "duplicate" ? [] : selection.map(getEntryKey));
+  const failed = new Map<string, EventEntry[]>();
+
+  for (;;) {
+    const staying = nearby.filter((other) => !moving.has(getEntryKey(other)) || failed.has(getEntryKey(other)));
+    const accepted: EventEntry[] = [];
+    let hasNewFailure = false;
+
+    targets.forEach(({ entry, target }) => {
+      const key = getEntryKey(entry);
+      if (failed.has(key)) return;
+      // An event never clashes with itself, its own copy or other occurrences of its series
+      const conflicts = [...staying, ...accepted].filter(
+        (other) =>
+          other.event.id !== entry.event.id && hasTimeOverlap(other.event, target.event, other.dateKey, target.dateKey)
+      );
+      if (conflicts.length > 0) {
+        failed.set(key, conflicts);
+        hasNewFailure = true;
+      } else {
+        accepted.push(target);
+      }
+    });
+
+    if (!hasNewFailure) {
+      return selection
+        .filter((entry) => failed.has(getEntryKey(entry)))
+        .map((entry) => ({ entry, conflicts: failed.get(getEntryKey(entry))! }));
+    }
+  }
+}
+
+function applyToEntry(
+  events: Record<string, Event[]>,
+  entry: EventEntry,
+  action: BulkAction,
+  displayTimeZone: string,
+  createId: () => string
+): Record<string, Event[]> {
+  const stored = toStoredEntry(entry, displayTimeZone);
+  const { id } = stored.event;
+  const isRecurring = Boolean(stored.event.recurrence);
+
+  switch (action.type) {
+    case "delete":
+      return isRecurring ? deleteOccurrence(events, id, stored.dateKey, "this") : removeEvent(events, stored.dateKey, id);
+    case "move":
+    case "shift": {
+      const targetKey = getTargetKey(entry, action);
+      const destination = toStoredEntry(
+        { dateKey: targetKey, event: shiftEndDate(entry.event, entry.dateKey, targetKey) },
+        displayTimeZone
+      ).dateKey;
+      if (isRecurring) return moveOccurrence(events, id, stored.dateKey, destination, createId());
+      return addEvent(
+        removeEvent(events, stored.dateKey, id),
+        destination,
+        shiftEndDate(stored.event, stored.dateKey, destination)
+      );
+    }
+    case "duplicate": {
+      const copy: Event = { ...stored.event, id: createId() };
+      delete copy.recurrence;
+      delete copy.exceptionDates;
+      delete copy.recurringEventId;
+      return addEvent(events, stored.dateKey, copy);
+    }
+    case "category":
+    case "color": {
+      const changed: Event =
+        action.type === "category" ? { ...stored.event, category: action.category } : { ...stored.event, color: action.color };
+      if (!changed.color) delete changed.color;
+      if (isRecurring) return updateOccurrence(events, id, stored.dateKey, withoutId(changed), "this", createId());
+      return {
+        ...events,
+        [stored.dateKey]: (events[stored.dateKey] || []).map((event) => (event.id === id ? changed : event)),
+      };
+    }
+  }
+}
+
+// Applies one action to every selected event as a single change to the store. Selected
+// entries are looked up again in the store, so ones deleted meanwhile are skipped.
+export function applyBulkAction(
+  events: Record<string, Event[]>,
+  selection: EventEntry[],
+  action: BulkAction,
+  displayTimeZone: string,
+  createId: () => string = generateEventId
+): BulkResult {
+  if (selection.length === 0) return { events, applied: [], failures: [] };
+
+  const dateKeys = selection
+    .flatMap((entry) => {
+      const targetKey = getTargetKey(entry, action);
+      return [entry.dateKey, targetKey, getEventEndDateKey(shiftEndDate(entry.event, entry.dateKey, targetKey), targetKey)];
+    })
+    .sort();
+  const nearby = listEvents(
+    toDisplayEvents(
+      expandEvents(events, addDaysToKey(dateKeys[0], -1), addDaysToKey(dateKeys[dateKeys.length - 1], 1)),
+      displayTimeZone
+    )
+  );
+  const selectedKeys = new Set(selection.map(getEntryKey));
+  const current = nearby.filter((entry) => selectedKeys.has(getEntryKey(entry)));
+
+  const failures = changesTime(action) ? findBulkConflicts(nearby, current, action) : [];
+  const failedKeys = new Set(failures.map(({ entry }) => getEntryKey(entry)));
+  const applied = current.filter((entry) => !failedKeys.has(getEntryKey(entry)));
+
+  return {
+    events: applied.reduce((updated, entry) => applyToEntry(updated, entry, action, displayTimeZone, createId), events),
+    applied,
+    failures,
+  };
+}
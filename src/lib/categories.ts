@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { Event } from "./eventSchema";
+
+export const categorySchema = z.object({
+  // Stored on events as their `category`
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // Used for events that have no color of their own
+  color: z.string().min(1),
+});
+
+export type Category = z.infer<typeof categorySchema>;
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: "work", name: "Work", color: "#87CEFA" },
+  { id: "personal", name: "Personal", color: "#FFB6C1" },
+  { id: "other", name: "Other", color: "#D3D3D3" },
+];
+
+// Shown for events whose category has been deleted elsewhere, e.g. in another tab
+export const FALLBACK_CATEGORY_COLOR = "gray";
+
+const CATEGORIES_STORAGE_KEY = "calendar_categories";
+const HIDDEN_CATEGORIES_STORAGE_KEY = "calendar_hidden_categories";
+
+export function loadCategories(): Category[] {
+  try {
+    const stored = localStorage.getItem(CATEGORIES_STORAGE_KEY);
+    if (!stored) return DEFAULT_CATEGORIES;
+    const parsed = z.array(categorySchema).min(1).safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : DEFAULT_CATEGORIES;
+  } catch (error) {
+    console.error("Error loading categories:", error);
+    return DEFAULT_CATEGORIES;
+  }
+}
+
+export function saveCategories(categories: Category[]) {
+  try {
+    localStorage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(categories));
+  } catch (error) {
+    console.error("Error saving categories:", error);
+  }
+}
+
+// Ids of the categories the user has hidden from the calendar and exports
+export function loadHiddenCategories(): string[] {
+  try {
+    const parsed = z.array(z.string()).safeParse(JSON.parse(localStorage.getItem(HIDDEN_CATEGORIES_STORAGE_KEY) || "[]"));
+    return parsed.success ? parsed.data : [];
+  } catch (error) {
+    console.error("Error loading hidden categories:", error);
+    return [];
+  }
+}
+
+export function saveHiddenCategories(hiddenCategories: string[]) {
+  try {
+    localStorage.setItem(HIDDEN_CATEGORIES_STORAGE_KEY, JSON.stringify(hiddenCategories));
+  } catch (error) {
+    console.error("Error saving hidden categories:", error);
+  }
+}
+
+// Readable id from the name, e.g. "Side projects" -> "side-projects", kept unique
+export function createCategoryId(name: string, categories: Category[]): string {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "category";
+  let id = base;
+  for (let suffix = 2; categories.some((category) => category.id === id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+// The category new and imported events get when none is given
+export const getDefaultCategoryId = (categories: Category[]): string =>
+  (categories.find((category) => category.id === "other") || categories[categories.length - 1]).id;
+
+export const findCategory = (categories: Category[], id: string): Category | undefined =>
+  categories.find((category) => category.id === id);
+
+// Matches an imported category by id or by name, ignoring case
+export const resolveCategoryId = (categories: Category[], value: string): string | undefined =>
+  categories.find(
+    (category) => category.id === value || category.name.toLowerCase() === value.trim().toLowerCase()
+  )?.id;
+
+export const getCategoryName = (categories: Category[], id: string): string =>
+  findCategory(categories, id)?.name || id;
+
+export const getEventColor = (event: Event, categories: Category[]): string =>
+  event.color || findCategory(categories, event.category)?.color || FALLBACK_CATEGORY_COLOR;
+
+// Moves every event of one category to another, e.g. before the first is deleted
+export function reassignCategory(
+  events: Record<string, Event[]>,
+  fromId: string,
+  toId: string
+): Record<string, Event[]> {
+  return Object.fromEntries(
+    Object.entries(events).map(([dateKey, dayEvents]) => [
+      dateKey,
+      dayEvents.map((event) => (event.category === fromId ? { ...event, category: toId } : event)),
+    ])
+  );
+}
+
+// Leaves out events of hidden categories, dropping days that end up empty
+export function hideCategories(events: Record<string, Event[]>, hiddenCategories: string[]): Record<string, Event[]> {
+  if (hiddenCategories.length === 0) return events;
+  const shown: Record<string, Event[]> = {};
+  Object.entries(events).forEach(([dateKey, dayEvents]) => {
+    const shownEvents = dayEvents.filter((event) => !hiddenCategories.includes(event.category));
+    if (shownEvents.length > 0) shown[dateKey] = shownEvents;
+  });
+  return shown;
+}
+
+// Events per category starting within the inclusive date key range
+export function countByCategory(
+  events: Record<string, Event[]>,
+  rangeStart: string,
+  rangeEnd: string
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  Object.entries(events).forEach(([dateKey, dayEvents]) => {
+    if (dateKey < rangeStart || dateKey > rangeEnd) return;
+    dayEvents.forEach((event) => {
+      counts[event.category] = (counts[event.category] || 0) + 1;
+    });
+  });
+  return counts;
+}
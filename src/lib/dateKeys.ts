@@ -0,0 +1,139 @@
+// Date keys ("YYYY-MM-DD") name a calendar day, never an instant. Every key in the
+// app is built here so that a day picked on screen keeps its date in any time zone.
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields of an instant as seen in a time zone
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach(({ type, value }) => {
+      if (type !== "literal") parts[type] = Number(value);
+    });
+  return parts;
+};
+
+// Builds the key of the day a date falls on: the local calendar day by default,
+// or the day it is in the given IANA time zone
+export const toDateKey = (date: Date, timeZone?: string): string => {
+  if (!timeZone) {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Local midnight of a key, for the Date objects the UI works with
+export const dateFromKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getTodayKey = (timeZone?: string): string => toDateKey(new Date(), timeZone);
+
+// Key arithmetic happens in UTC, where every day is exactly 24 hours long
+export const parseDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const keyFromUtcDate = (date: Date): string =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const date = parseDateKey(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return keyFromUtcDate(date);
+};
+
+export const daysBetweenKeys = (fromKey: string, toKey: string): number =>
+  Math.round((parseDateKey(toKey).getTime() - parseDateKey(fromKey).getTime()) / 86400000);
+
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Used where the browser can't list its supported zones
+const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Moscow",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Pacific/Auckland",
+];
+
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") || COMMON_TIME_ZONES;
+  const localZone = getLocalTimeZone();
+  return zones.includes(localZone) ? zones : [localZone, ...zones];
+};
+
+// Milliseconds a zone's wall clock is ahead of UTC at an instant
+export const getZoneOffset = (timestamp: number, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(new Date(timestamp), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(timestamp / 1000) * 1000;
+};
+
+// Re-expresses a wall-clock date and HH:MM time from one time zone in another.
+// Times that don't exist in the source zone (a DST gap) move forward with the clock.
+export function convertWallTime(
+  dateKey: string,
+  time: string,
+  fromZone: string,
+  toZone: string
+): { dateKey: string; time: string } {
+  if (fromZone === toZone) return { dateKey, time };
+
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallTime = parseDateKey(dateKey).getTime() + (hours * 60 + minutes) * 60000;
+  // The offset at the guessed instant can differ from the one at the real instant
+  // near a DST change, so correct once with the offset found there
+  let instant = wallTime - getZoneOffset(wallTime, fromZone);
+  instant = wallTime - getZoneOffset(instant, fromZone);
+
+  const parts = getZonedParts(new Date(instant), toZone);
+  return {
+    dateKey: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+  };
+}
@@ -0,0 +1,124 @@
+import { Event, getEventEndDateKey, isMultiDayEvent, listEvents } from "./events";
+
+export interface SpanningBar {
+  event: Event;
+  // Date key the event starts on
+  dateKey: string;
+  startColumn: number;
+  span: number;
+  lane: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+// Lays out multi-day events as bars across a row of consecutive days, stacking
+// overlapping bars into lanes so they never cover each other
+export function layoutSpanningBars(
+  events: Record<string, Event[]>,
+  rowKeys: string[]
+): { bars: SpanningBar[]; laneCount: number } {
+  const rowStart = rowKeys[0];
+  const rowEnd = rowKeys[rowKeys.length - 1];
+
+  const entries = listEvents(events)
+    .filter(({ event, dateKey }) => isMultiDayEvent(event, dateKey))
+    .filter(({ event, dateKey }) => dateKey <= rowEnd && getEventEndDateKey(event, dateKey) >= rowStart)
+    .sort(
+      (a, b) =>
+        a.dateKey.localeCompare(b.dateKey) ||
+        getEventEndDateKey(b.event, b.dateKey).localeCompare(getEventEndDateKey(a.event, a.dateKey)) ||
+        a.event.startTime.localeCompare(b.event.startTime)
+    );
+
+  // Last occupied column of each lane
+  const laneEnds: number[] = [];
+  const bars = entries.map(({ event, dateKey }): SpanningBar => {
+    const endKey = getEventEndDateKey(event, dateKey);
+    const startColumn = dateKey < rowStart ? 0 : rowKeys.indexOf(dateKey);
+    const endColumn = endKey > rowEnd ? rowKeys.length - 1 : rowKeys.indexOf(endKey);
+
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd < startColumn);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(endColumn);
+    } else {
+      laneEnds[lane] = endColumn;
+    }
+
+    return {
+      event,
+      dateKey,
+      startColumn,
+      span: endColumn - startColumn + 1,
+      lane,
+      continuesBefore: dateKey < rowStart,
+      continuesAfter: endKey > rowEnd,
+    };
+  });
+
+  return { bars, laneCount: laneEnds.length };
+}
+
+export interface TimedSegment {
+  event: Event;
+  // Date key the event starts on
+  dateKey: string;
+  // Minutes from midnight of the displayed day; multi-day events are clipped to it
+  startMinutes: number;
+  endMinutes: number;
+  column: number;
+  columnCount: number;
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Lays out the events touching one day on a vertical timeline. Events that overlap
+// in time are placed side by side, sharing the width of their cluster.
+export function layoutTimedEvents(events: Record<string, Event[]>, dayKey: string): TimedSegment[] {
+  const segments = listEvents(events)
+    .filter(({ event, dateKey }) => dateKey <= dayKey && getEventEndDateKey(event, dateKey) >= dayKey)
+    .map(({ event, dateKey }) => ({
+      event,
+      dateKey,
+      startMinutes: dateKey < dayKey ? 0 : toMinutes(event.startTime),
+      endMinutes: getEventEndDateKey(event, dateKey) > dayKey ? 24 * 60 : toMinutes(event.endTime),
+      column: 0,
+      columnCount: 1,
+    }))
+    .filter((segment) => segment.endMinutes > segment.startMinutes)
+    .sort((a, b) => a.startMinutes - b.startMinutes || b.endMinutes - a.endMinutes);
+
+  let cluster: TimedSegment[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach((segment) => {
+      segment.columnCount = columnEnds.length;
+    });
+    cluster = [];
+    columnEnds = [];
+  };
+
+  segments.forEach((segment) => {
+    if (segment.startMinutes >= clusterEnd) closeCluster();
+
+    let column = columnEnds.findIndex((columnEnd) => columnEnd <= segment.startMinutes);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(segment.endMinutes);
+    } else {
+      columnEnds[column] = segment.endMinutes;
+    }
+
+    segment.column = column;
+    cluster.push(segment);
+    clusterEnd = Math.max(clusterEnd, segment.endMinutes);
+  });
+  closeCluster();
+
+  return segments;
+}
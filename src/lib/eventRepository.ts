@@ -0,0 +1,293 @@
+import { Event, getEventEndDateKey, listEvents } from "./events";
+import {
+  EVENT_SCHEMA_VERSION,
+  QuarantinedRecord,
+  quarantineRecord,
+  readEventPayload,
+  upgradeEventRecord,
+} from "./eventSchema";
+
+export interface LoadedEvents {
+  events: Record<string, Event[]>;
+  // Stored records that couldn't be upgraded to the current schema
+  quarantined: QuarantinedRecord[];
+}
+
+// Where events are persisted. Maps are keyed by the date each event starts on.
+export interface EventRepository {
+  // Human-readable backend name, shown in storage errors
+  name: string;
+  // Loads every event, upgrading records saved by older versions of the app
+  load(): Promise<LoadedEvents>;
+  save(events: Record<string, Event[]>): Promise<void>;
+  // Events that can appear between the two date keys (inclusive): events starting in
+  // the range, multi-day events running into it, and recurring series started before it
+  queryByRange(rangeStart: string, rangeEnd: string): Promise<Record<string, Event[]>>;
+}
+
+// localStorage key used before storage was pluggable; still the localStorage backend's key
+export const LEGACY_STORAGE_KEY = "calendar_events";
+
+const DATABASE_NAME = "dynamic-event-calendar";
+const DATABASE_VERSION = 3;
+const EVENT_STORE = "events";
+const QUARANTINE_STORE = "quarantine";
+// Attachment files, kept apart from events so loading events doesn't read them
+export const ATTACHMENT_STORE = "attachments";
+
+interface StoredEventRecord {
+  id: string;
+  dateKey: string;
+  event: Event;
+  // Event schema version the record was written with; missing on the first records
+  version?: number;
+}
+
+const isInRange = (event: Event, dateKey: string, rangeStart: string, rangeEnd: string) =>
+  dateKey <= rangeEnd && (Boolean(event.recurrence) || getEventEndDateKey(event, dateKey) >= rangeStart);
+
+const filterByRange = (events: Record<string, Event[]>, rangeStart: string, rangeEnd: string) => {
+  const result: Record<string, Event[]> = {};
+  listEvents(events)
+    .filter(({ event, dateKey }) => isInRange(event, dateKey, rangeStart, rangeEnd))
+    .forEach(({ event, dateKey }) => {
+      result[dateKey] = [...(result[dateKey] || []), event];
+    });
+  return result;
+};
+
+// Turns browser storage failures into messages a user can act on
+export function describeStorageError(error: unknown): string {
+  if (error instanceof DOMException && (error.name === "QuotaExceededError" || error.code === 22)) {
+    return "Browser storage is full. Export and delete old events to free up space.";
+  }
+  // The database was closed for a newer version of the app opened in another tab
+  if (error instanceof DOMException && error.name === "InvalidStateError") {
+    return "The calendar was updated in another tab. Reload this page to keep saving.";
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return "Unknown storage error";
+}
+
+// Reads the localStorage payload; unreadable JSON is quarantined whole rather than lost
+const readStoredPayload = (): LoadedEvents => {
+  const storedEvents = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!storedEvents) return { events: {}, quarantined: [] };
+  try {
+    return readEventPayload(JSON.parse(storedEvents));
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    return { events: {}, quarantined: [quarantineRecord(storedEvents, 1, ["Stored data is not valid JSON"])] };
+  }
+};
+
+export function createLocalStorageRepository(): EventRepository {
+  // Saved back with every write so quarantined records are kept
+  let quarantined: QuarantinedRecord[] = [];
+
+  return {
+    name: "local storage",
+    async load() {
+      const loaded = readStoredPayload();
+      quarantined = loaded.quarantined;
+      return loaded;
+    },
+    async save(events) {
+      localStorage.setItem(
+        LEGACY_STORAGE_KEY,
+        JSON.stringify({
+          version: EVENT_SCHEMA_VERSION,
+          events,
+          ...(quarantined.length > 0 && { quarantine: quarantined }),
+        })
+      );
+    },
+    async queryByRange(rangeStart, rangeEnd) {
+      return filterByRange(readStoredPayload().events, rangeStart, rangeEnd);
+    },
+  };
+}
+
+// Wraps an IDBRequest in a promise
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("Storage transaction was aborted"));
+  });
+
+// Raised when a tab still running an older version keeps the database from upgrading
+class DatabaseBlockedError extends Error {
+  name = "DatabaseBlockedError";
+}
+
+export const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    let isBlocked = false;
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) {
+        const store = request.result.createObjectStore(EVENT_STORE, { keyPath: "id" });
+        store.createIndex("dateKey", "dateKey");
+      }
+      if (event.oldVersion < 2) {
+        request.result.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+      }
+      if (event.oldVersion < 3) {
+        request.result.createObjectStore(ATTACHMENT_STORE, { keyPath: "id" });
+      }
+    };
+    request.onblocked = () => {
+      isBlocked = true;
+      reject(
+        new DatabaseBlockedError(
+          "The calendar is open in another tab running an older version. Close that tab and reload this page."
+        )
+      );
+    };
+    request.onsuccess = () => {
+      const database = request.result;
+      // Opened after the other tab closed; this page already reported the error
+      if (isBlocked) {
+        database.close();
+        return;
+      }
+      // Steps aside when a newer version of the app opens the database in another tab
+      database.onversionchange = () => database.close();
+      resolve(database);
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+const toEventMap = (records: StoredEventRecord[]) => {
+  const events: Record<string, Event[]> = {};
+  records.forEach(({ dateKey, event }) => {
+    events[dateKey] = [...(events[dateKey] || []), event];
+  });
+  return events;
+};
+
+// Stores one record per event, so a save only writes the events that changed
+export function createIndexedDbRepository(database: IDBDatabase): EventRepository {
+  // Serialized records as last written, by event id; null forces a full rewrite
+  let lastSaved: Map<string, string> | null = null;
+
+  const readAll = async <T>(storeName: string) => {
+    const store = database.transaction(storeName, "readonly").objectStore(storeName);
+    return requestToPromise<T[]>(store.getAll());
+  };
+
+  // Rewrites records from older schema versions, moving the ones that can't be
+  // upgraded into the quarantine store
+  const upgradeRecords = async (records: StoredEventRecord[]) => {
+    const transaction = database.transaction([EVENT_STORE, QUARANTINE_STORE], "readwrite");
+    records.forEach((record) => {
+      const version = record.version ?? 1;
+      const result = upgradeEventRecord(record.event, version);
+      if ("event" in result) {
+        transaction.objectStore(EVENT_STORE).put({ ...record, event: result.event, version: EVENT_SCHEMA_VERSION });
+      } else {
+        transaction.objectStore(EVENT_STORE).delete(record.id);
+        transaction
+          .objectStore(QUARANTINE_STORE)
+          .add(quarantineRecord(record.event, version, result.errors, record.dateKey));
+      }
+    });
+    await transactionDone(transaction);
+  };
+
+  const addToQuarantine = async (quarantined: QuarantinedRecord[]) => {
+    if (quarantined.length === 0) return;
+    const transaction = database.transaction(QUARANTINE_STORE, "readwrite");
+    quarantined.forEach((record) => transaction.objectStore(QUARANTINE_STORE).add(record));
+    await transactionDone(transaction);
+  };
+
+  const save = async (events: Record<string, Event[]>) => {
+    const records = listEvents(events).map(
+      ({ dateKey, event }): StoredEventRecord => ({ id: event.id, dateKey, event, version: EVENT_SCHEMA_VERSION })
+    );
+    const serialized = new Map(records.map((record) => [record.id, JSON.stringify(record)]));
+    const previous = lastSaved;
+    lastSaved = serialized;
+
+    const transaction = database.transaction(EVENT_STORE, "readwrite");
+    const store = transaction.objectStore(EVENT_STORE);
+    if (!previous) store.clear();
+    records.forEach((record) => {
+      if (previous?.get(record.id) !== serialized.get(record.id)) store.put(record);
+    });
+    previous?.forEach((_, id) => {
+      if (!serialized.has(id)) store.delete(id);
+    });
+
+    try {
+      await transactionDone(transaction);
+    } catch (error) {
+      lastSaved = null;
+      throw error;
+    }
+  };
+
+  return {
+    name: "IndexedDB",
+    async load() {
+      let records = await readAll<StoredEventRecord>(EVENT_STORE);
+
+      // Move events saved by earlier versions out of localStorage
+      if (records.length === 0 && localStorage.getItem(LEGACY_STORAGE_KEY) !== null) {
+        const legacy = readStoredPayload();
+        await save(legacy.events);
+        await addToQuarantine(legacy.quarantined);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        records = await readAll<StoredEventRecord>(EVENT_STORE);
+      }
+
+      if (records.some((record) => (record.version ?? 1) > EVENT_SCHEMA_VERSION)) {
+        throw new Error("These events were saved by a newer version of the app");
+      }
+      const outdated = records.filter((record) => (record.version ?? 1) < EVENT_SCHEMA_VERSION);
+      if (outdated.length > 0) {
+        await upgradeRecords(outdated);
+        records = await readAll<StoredEventRecord>(EVENT_STORE);
+      }
+
+      lastSaved = new Map(records.map((record) => [record.id, JSON.stringify(record)]));
+      return {
+        events: toEventMap(records),
+        quarantined: await readAll<QuarantinedRecord>(QUARANTINE_STORE),
+      };
+    },
+    save,
+    async queryByRange(rangeStart, rangeEnd) {
+      const store = database.transaction(EVENT_STORE, "readonly").objectStore(EVENT_STORE);
+      const records = await requestToPromise<StoredEventRecord[]>(
+        store.index("dateKey").getAll(IDBKeyRange.upperBound(rangeEnd))
+      );
+      return toEventMap(records.filter(({ event, dateKey }) => isInRange(event, dateKey, rangeStart, rangeEnd)));
+    },
+  };
+}
+
+// Prefers IndexedDB, falling back to localStorage where it is unavailable
+// (e.g. some private browsing modes)
+export async function openEventRepository(): Promise<EventRepository> {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return createIndexedDbRepository(await openDatabase());
+    } catch (error) {
+      // The events are in IndexedDB, so falling back would show an empty calendar
+      if (error instanceof DatabaseBlockedError) throw error;
+      console.error("IndexedDB is unavailable, falling back to localStorage:", error);
+    }
+  }
+  return createLocalStorageRepository();
+}
@@ -0,0 +1,280 @@
+import { z } from "zod";
+import { isValidTimeZone } from "./dateKeys";
+
+// Version of the persisted event shape. Bump it whenever the shape changes and add a
+// migration from the previous version to `recordMigrations`.
+//   1: unversioned `Record<dateKey, Event[]>` map saved before versioning
+//   2: versioned payload; optional fields are omitted rather than stored as ""
+export const EVENT_SCHEMA_VERSION = 2;
+
+export const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+export const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected an HH:MM time");
+
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(["daily", "weekly", "monthly", "yearly"]),
+  interval: z.number().int().min(1),
+  // Weekly rules: days of the week, 0 = Sunday
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  // Monthly rules: repeat on the same date, or on the same nth weekday (e.g. 2nd Tuesday)
+  monthlyMode: z.enum(["dayOfMonth", "nthWeekday"]).optional(),
+  // Inclusive last date key
+  until: dateKeySchema.optional(),
+  count: z.number().int().min(1).optional(),
+});
+
+export const RSVP_STATUSES = ["pending", "accepted", "tentative", "declined"] as const;
+
+export const attendeeSchema = z.object({
+  name: z.string().min(1),
+  // Identifies the attendee, so it is unique within an event
+  email: z.string().email(),
+  // Free text such as "Organizer" or "Note taker"
+  role: z.string().optional(),
+  status: z.enum(RSVP_STATUSES),
+});
+
+// Web links only, so stored or imported links can't run scripts when opened
+export const linkSchema = z
+  .string()
+  .url("Enter a valid link")
+  .refine((value) => /^https?:\/\//i.test(value), "Links must start with http:// or https://");
+
+// A file kept in the browser's attachment store under `id`; events hold only these details
+export const attachmentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  // MIME type, empty when the browser doesn't know it
+  type: z.string(),
+  size: z.number().int().min(0),
+});
+
+export const eventSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1, "Title is required"),
+  startTime: timeSchema,
+  endTime: timeSchema,
+  description: z.string().optional(),
+  // Id of one of the user's categories
+  category: z.string().min(1),
+  color: z.string().optional(),
+  // Date key the event ends on, for multi-day and overnight events; defaults to its start date
+  endDate: dateKeySchema.optional(),
+  recurrence: recurrenceRuleSchema.optional(),
+  // Date keys of occurrences removed from a recurring series
+  exceptionDates: z.array(dateKeySchema).optional(),
+  // Set on a single occurrence that was edited apart from its series
+  recurringEventId: z.string().optional(),
+  // IANA zone the date and times are written in; without one the event is floating
+  // and shows the same clock time in every zone
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  // Minutes before the start to remind at
+  reminders: z.array(z.number().int().min(0)).optional(),
+  attendees: z.array(attendeeSchema).optional(),
+  // A meeting room, address or dial-in
+  location: z.string().optional(),
+  links: z.array(linkSchema).optional(),
+  attachments: z.array(attachmentSchema).optional(),
+});
+
+export type Event = z.infer<typeof eventSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type Attendee = z.infer<typeof attendeeSchema>;
+export type RsvpStatus = Attendee["status"];
+export type Attachment = z.infer<typeof attachmentSchema>;
+
+export const TITLE_MAX_LENGTH = 100;
+export const DESCRIPTION_MAX_LENGTH = 2000;
+export const LOCATION_MAX_LENGTH = 200;
+
+// Hex colors from the color picker, or CSS color names from iCalendar files
+const colorSchema = z
+  .string()
+  .regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$|^[a-z]+$/i, "Expected a #RRGGBB color or a color name");
+
+// Attendees as a person enters them; emails are compared ignoring case
+export const attendeeListSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1, "Attendee name is required").max(100, "Attendee name must be at most 100 characters"),
+      email: z.string().trim().email("Enter a valid email address"),
+      role: z.string().trim().max(60, "Role must be at most 60 characters").optional(),
+      status: z.enum(RSVP_STATUSES),
+    })
+  )
+  .refine(
+    (attendees) => new Set(attendees.map(({ email }) => email.toLowerCase())).size === attendees.length,
+    "Each attendee needs a different email address"
+  );
+
+// The fields a person enters for an event, shared by the event form and imports. Unlike
+// `eventSchema` it limits lengths, so events stored before the limits still load.
+export const eventFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required")
+    .max(TITLE_MAX_LENGTH, `Title must be at most ${TITLE_MAX_LENGTH} characters`),
+  // Date key the event starts on
+  date: z
+    .string()
+    .refine(
+      (value) => dateKeySchema.safeParse(value).success && !Number.isNaN(Date.parse(value)),
+      "Expected a YYYY-MM-DD date"
+    ),
+  endDate: dateKeySchema.optional(),
+  startTime: timeSchema,
+  endTime: timeSchema,
+  description: z
+    .string()
+    .max(DESCRIPTION_MAX_LENGTH, `Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`)
+    .optional(),
+  category: z.string().min(1, "Category is required"),
+  color: colorSchema.optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
+  attendees: attendeeListSchema.optional(),
+  location: z
+    .string()
+    .trim()
+    .max(LOCATION_MAX_LENGTH, `Location must be at most ${LOCATION_MAX_LENGTH} characters`)
+    .optional(),
+  links: z.array(linkSchema).optional(),
+});
+
+// Ends after it starts: on a later day, or later on the same day. Malformed times are
+// already reported by the field schemas.
+export function checkEventTiming(
+  value: { date: string; endDate?: string; startTime: string; endTime: string },
+  ctx: z.RefinementCtx
+) {
+  if (!timeSchema.safeParse(value.startTime).success || !timeSchema.safeParse(value.endTime).success) return;
+  const endDate = value.endDate || value.date;
+  if (endDate < value.date) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endDate"], message: "End date must be on or after the start date" });
+  } else if (endDate === value.date && value.endTime <= value.startTime) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endTime"], message: "End time must be after start time" });
+  }
+}
+
+export const eventInputSchema = eventFieldsSchema.superRefine(checkEventTiming);
+
+// A stored record that failed to upgrade, kept so no data is lost
+export interface QuarantinedRecord {
+  // Date key the record was stored under, when known
+  dateKey?: string;
+  record: unknown;
+  // Schema version the record was written with
+  version: number;
+  errors: string[];
+  quarantinedAt: string;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const padTime = (value: unknown) =>
+  typeof value === "string" && /^\d:\d{2}$/.test(value) ? `0${value}` : value;
+
+// Each migration upgrades a record from the version it is keyed by to the next one
+const recordMigrations: Record<number, (record: RawRecord) => RawRecord> = {
+  1: (record) => {
+    const upgraded: RawRecord = {
+      ...record,
+      startTime: padTime(record.startTime),
+      endTime: padTime(record.endTime),
+    };
+    // The oldest events were saved without a category
+    if (!["work", "personal", "other"].includes(upgraded.category as string)) {
+      upgraded.category = "other";
+    }
+    ["description", "color", "endDate", "recurringEventId", "timeZone"].forEach((field) => {
+      if (upgraded[field] === "" || upgraded[field] === null) delete upgraded[field];
+    });
+    return upgraded;
+  },
+};
+
+// Runs a raw record through every migration after the version it was written with
+export function migrateEventRecord(record: RawRecord, fromVersion: number): RawRecord {
+  let migrated = record;
+  for (let version = fromVersion; version < EVENT_SCHEMA_VERSION; version++) {
+    migrated = recordMigrations[version]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+export const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+
+// Upgrades one stored event to the current schema, or explains why it can't be
+export function upgradeEventRecord(
+  record: unknown,
+  fromVersion: number
+): { event: Event } | { errors: string[] } {
+  if (!record || typeof record !== "object" || Array.isArray(record)) {
+    return { errors: ["Expected an event object"] };
+  }
+  const result = eventSchema.safeParse(migrateEventRecord(record as RawRecord, fromVersion));
+  return result.success ? { event: result.data } : { errors: formatIssues(result.error) };
+}
+
+export const quarantineRecord = (
+  record: unknown,
+  version: number,
+  errors: string[],
+  dateKey?: string
+): QuarantinedRecord => ({
+  ...(dateKey && { dateKey }),
+  record,
+  version,
+  errors,
+  quarantinedAt: new Date().toISOString(),
+});
+
+// Schema version of a persisted payload or exported file; unversioned data is version 1
+export function getPayloadVersion(payload: unknown): number {
+  if (payload && typeof payload === "object" && !Array.isArray(payload)) {
+    const { version } = payload as RawRecord;
+    if (typeof version === "number") {
+      if (version > EVENT_SCHEMA_VERSION) {
+        throw new Error(`This data was saved by a newer version of the app (schema version ${version})`);
+      }
+      return version;
+    }
+  }
+  return 1;
+}
+
+export interface EventPayload {
+  version: number;
+  events: Record<string, Event[]>;
+  quarantine?: QuarantinedRecord[];
+}
+
+// Reads a persisted event map of any version, upgrading every record and setting
+// aside the ones that can't be upgraded
+export function readEventPayload(payload: unknown): {
+  events: Record<string, Event[]>;
+  quarantined: QuarantinedRecord[];
+} {
+  const version = getPayloadVersion(payload);
+  const eventMap = (version === 1 ? payload : (payload as EventPayload).events) as Record<string, unknown>;
+  const events: Record<string, Event[]> = {};
+  const quarantined: QuarantinedRecord[] =
+    version === 1 ? [] : [...((payload as EventPayload).quarantine || [])];
+
+  Object.entries(eventMap || {}).forEach(([dateKey, dayEvents]) => {
+    if (!dateKeySchema.safeParse(dateKey).success || !Array.isArray(dayEvents)) {
+      quarantined.push(quarantineRecord(dayEvents, version, ["Expected a list of events for a YYYY-MM-DD date"], dateKey));
+      return;
+    }
+    dayEvents.forEach((record) => {
+      const result = upgradeEventRecord(record, version);
+      if ("event" in result) {
+        events[dateKey] = [...(events[dateKey] || []), result.event];
+      } else {
+        quarantined.push(quarantineRecord(record, version, result.errors, dateKey));
+      }
+    });
+  });
+
+  return { events, quarantined };
+}
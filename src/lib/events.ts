@@ -0,0 +1,111 @@
+import { convertWallTime } from "./dateKeys";
+import { Event } from "./eventSchema";
+
+// The event shape is defined once, by the versioned schema
+export type { Event };
+
+export const getEventEndDateKey = (event: Event, dateKey: string): string =>
+  event.endDate && event.endDate > dateKey ? event.endDate : dateKey;
+
+// True for events that run past midnight of their start date
+export const isMultiDayEvent = (event: Event, dateKey: string): boolean =>
+  getEventEndDateKey(event, dateKey) > dateKey;
+
+const formatShortDate = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+
+// "09:00 - 10:00", or with dates for events that end on a later day
+export function formatEventTimeRange(event: Event, dateKey: string): string {
+  const endDateKey = getEventEndDateKey(event, dateKey);
+  if (endDateKey === dateKey) return `${event.startTime} - ${event.endTime}`;
+  return `${formatShortDate(dateKey)} ${event.startTime} - ${formatShortDate(endDateKey)} ${event.endTime}`;
+}
+
+// Absolute start and end of an event starting on dateKey; times are pinned to UTC so DST can't skew them
+export function getEventInterval(event: Event, dateKey: string): { start: Date; end: Date } {
+  return {
+    start: new Date(`${dateKey}T${event.startTime}:00Z`),
+    end: new Date(`${getEventEndDateKey(event, dateKey)}T${event.endTime}:00Z`),
+  };
+}
+
+// Helper function to check for time overlap between events starting on the given dates
+export function hasTimeOverlap(
+  event1: Event,
+  event2: Event,
+  dateKey1: string,
+  dateKey2: string = dateKey1
+): boolean {
+  const interval1 = getEventInterval(event1, dateKey1);
+  const interval2 = getEventInterval(event2, dateKey2);
+
+  return interval1.start < interval2.end && interval1.end > interval2.start;
+}
+
+// Flattens a date-keyed map into events paired with the date they start on
+export function listEvents(events: Record<string, Event[]>): { dateKey: string; event: Event }[] {
+  return Object.entries(events).flatMap(([dateKey, dayEvents]) =>
+    dayEvents.map((event) => ({ dateKey, event }))
+  );
+}
+
+// Events from the map that overlap the given event, ignoring the event itself
+export function findOverlappingEvents(
+  events: Record<string, Event[]>,
+  event: Event,
+  dateKey: string
+): { dateKey: string; event: Event }[] {
+  return listEvents(events).filter(
+    (other) => other.event.id !== event.id && hasTimeOverlap(other.event, event, other.dateKey, dateKey)
+  );
+}
+
+// Events starting on or running through the given date
+export function getEventsOnDate(
+  events: Record<string, Event[]>,
+  dateKey: string
+): { dateKey: string; event: Event }[] {
+  return listEvents(events).filter(
+    (entry) => entry.dateKey <= dateKey && getEventEndDateKey(entry.event, entry.dateKey) >= dateKey
+  );
+}
+
+export function generateEventId(): string {
+  return Math.random().toString(36).substr(2, 9);
+}
+
+// Finds the date key an event is stored under
+export function findEventDateKey(events: Record<string, Event[]>, id: string): string | undefined {
+  return Object.keys(events).find((dateKey) => events[dateKey].some((event) => event.id === id));
+}
+
+// Re-expresses an event starting on dateKey in another time zone, moving it to another
+// day when the conversion crosses midnight
+export function convertEventTimeZone(
+  event: Event,
+  dateKey: string,
+  fromZone: string,
+  toZone: string
+): { dateKey: string; event: Event } {
+  if (fromZone === toZone) return { dateKey, event };
+
+  const start = convertWallTime(dateKey, event.startTime, fromZone, toZone);
+  const end = convertWallTime(getEventEndDateKey(event, dateKey), event.endTime, fromZone, toZone);
+  const converted: Event = { ...event, startTime: start.time, endTime: end.time };
+  delete converted.endDate;
+  if (end.dateKey > start.dateKey) converted.endDate = end.dateKey;
+
+  return { dateKey: start.dateKey, event: converted };
+}
+
+// Places events that have their own time zone on the days and clock of the display zone
+export function toDisplayEvents(events: Record<string, Event[]>, displayTimeZone: string): Record<string, Event[]> {
+  const displayed: Record<string, Event[]> = {};
+  listEvents(events).forEach(({ dateKey, event }) => {
+    const entry = event.timeZone
+      ? convertEventTimeZone(event, dateKey, event.timeZone, displayTimeZone)
+      : { dateKey, event };
+    displayed[entry.dateKey] = [...(displayed[entry.dateKey] || []), entry.event];
+  });
+  return displayed;
+}
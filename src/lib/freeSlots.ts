@@ -0,0 +1,110 @@
+import { addDaysToKey, daysBetweenKeys } from "./dateKeys";
+import { Event, getEventEndDateKey, getEventInterval, listEvents } from "./events";
+
+export interface TimeSlot {
+  dateKey: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface FreeSlotOptions {
+  durationMinutes: number;
+  // Inclusive date keys to search
+  rangeStart: string;
+  rangeEnd: string;
+  // Minutes from midnight the search is limited to on each day
+  dayStartMinutes?: number;
+  dayEndMinutes?: number;
+  // Candidate start times are this many minutes apart
+  stepMinutes?: number;
+  // Only events this returns true for block a slot; defaults to every event
+  isBusy?: (event: Event) => boolean;
+  // The event being placed, which shouldn't block itself
+  ignoreEventId?: string;
+}
+
+export const toTime = (minutes: number): string =>
+  `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`;
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Length of an event starting on dateKey, in minutes
+export const getEventDurationMinutes = (event: Event, dateKey: string): number => {
+  const { start, end } = getEventInterval(event, dateKey);
+  return Math.round((end.getTime() - start.getTime()) / 60000);
+};
+
+// Every slot of the given length that no busy event overlaps, in chronological order.
+// Slots stay within a single day.
+export function findFreeSlots(events: Record<string, Event[]>, options: FreeSlotOptions): TimeSlot[] {
+  const {
+    durationMinutes,
+    rangeStart,
+    rangeEnd,
+    dayStartMinutes = 0,
+    dayEndMinutes = 24 * 60,
+    stepMinutes = 15,
+    isBusy = () => true,
+    ignoreEventId,
+  } = options;
+
+  // Busy intervals as minutes relative to midnight of rangeStart
+  const busy = listEvents(events)
+    .filter(({ event }) => event.id !== ignoreEventId && isBusy(event))
+    .filter(({ event, dateKey }) => dateKey <= rangeEnd && getEventEndDateKey(event, dateKey) >= rangeStart)
+    .map(({ event, dateKey }) => {
+      const start = daysBetweenKeys(rangeStart, dateKey) * 24 * 60 + toMinutes(event.startTime);
+      return { start, end: start + getEventDurationMinutes(event, dateKey) };
+    });
+
+  const slots: TimeSlot[] = [];
+  const dayCount = daysBetweenKeys(rangeStart, rangeEnd) + 1;
+  // Candidates line up with the step, so a search starting at 09:10 still offers 09:15
+  const firstCandidate = Math.ceil(dayStartMinutes / stepMinutes) * stepMinutes;
+
+  for (let day = 0; day < dayCount; day++) {
+    for (let start = firstCandidate; start + durationMinutes <= dayEndMinutes; start += stepMinutes) {
+      const slotStart = day * 24 * 60 + start;
+      const slotEnd = slotStart + durationMinutes;
+      if (busy.some((interval) => interval.start < slotEnd && interval.end > slotStart)) continue;
+      slots.push({
+        dateKey: addDaysToKey(rangeStart, day),
+        startTime: toTime(start),
+        endTime: toTime(start + durationMinutes),
+      });
+    }
+  }
+
+  return slots;
+}
+
+// Free slots closest to when an event was wanted: on its own day and each following
+// day, the nearest slot before the requested time and the nearest one after it
+export function suggestFreeSlots(
+  events: Record<string, Event[]>,
+  event: Event,
+  dateKey: string,
+  { days = 7, limit = 6 } = {}
+): TimeSlot[] {
+  const requestedStart = toMinutes(event.startTime);
+  const slots = findFreeSlots(events, {
+    durationMinutes: getEventDurationMinutes(event, dateKey),
+    rangeStart: dateKey,
+    rangeEnd: addDaysToKey(dateKey, days - 1),
+    ignoreEventId: event.id,
+  });
+
+  const suggestions: TimeSlot[] = [];
+  for (let day = 0; day < days && suggestions.length < limit; day++) {
+    const daySlots = slots.filter((slot) => slot.dateKey === addDaysToKey(dateKey, day));
+    const earlier = daySlots.filter((slot) => toMinutes(slot.startTime) < requestedStart).pop();
+    const later = daySlots.find((slot) => toMinutes(slot.startTime) >= requestedStart);
+    // When the requested time itself is free that day, it is the only suggestion needed
+    const daySuggestions = later && toMinutes(later.startTime) === requestedStart ? [later] : [earlier, later];
+    suggestions.push(...daySuggestions.filter((slot): slot is TimeSlot => Boolean(slot)));
+  }
+  return suggestions.slice(0, limit);
+}
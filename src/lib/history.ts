@@ -0,0 +1,125 @@
+import { Event, listEvents } from "./events";
+import { EVENT_SCHEMA_VERSION } from "./eventSchema";
+import { Category } from "./categories";
+
+// One event before and after a change; a missing side means it didn't exist
+export interface EventChange {
+  id: string;
+  before?: { dateKey: string; event: Event };
+  after?: { dateKey: string; event: Event };
+}
+
+// A category deleted in the same step that moved its events, so undo can put it back
+export interface CategoryRemoval {
+  category: Category;
+  // Its place in the category list
+  index: number;
+  hidden: boolean;
+  // The category its events and templates moved to
+  reassignTo: string;
+  templateIds: string[];
+}
+
+export interface HistoryEntry {
+  // Describes the change, e.g. "Delete event"
+  label: string;
+  changes: EventChange[];
+  removedCategory?: CategoryRemoval;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// Oldest entries are dropped past this many undo steps
+export const HISTORY_LIMIT = 50;
+
+// Kept per tab in sessionStorage, so each tab undoes only its own changes, even after a reload
+const HISTORY_STORAGE_KEY = "calendar_history";
+
+export const emptyHistory: HistoryState = { past: [], future: [] };
+
+// Lists the events that were added, removed, edited or moved between two maps
+export function diffEvents(before: Record<string, Event[]>, after: Record<string, Event[]>): EventChange[] {
+  const beforeById = new Map(listEvents(before).map((entry) => [entry.event.id, entry]));
+  const afterById = new Map(listEvents(after).map((entry) => [entry.event.id, entry]));
+  const changes: EventChange[] = [];
+
+  beforeById.forEach((entry, id) => {
+    const next = afterById.get(id);
+    if (!next) {
+      changes.push({ id, before: entry });
+    } else if (next.dateKey !== entry.dateKey || JSON.stringify(next.event) !== JSON.stringify(entry.event)) {
+      changes.push({ id, before: entry, after: next });
+    }
+  });
+  afterById.forEach((entry, id) => {
+    if (!beforeById.has(id)) changes.push({ id, after: entry });
+  });
+
+  return changes;
+}
+
+const removeEvent = (events: Record<string, Event[]>, id: string) => {
+  Object.keys(events).forEach((dateKey) => {
+    if (!events[dateKey].some((event) => event.id === id)) return;
+    events[dateKey] = events[dateKey].filter((event) => event.id !== id);
+    if (events[dateKey].length === 0) delete events[dateKey];
+  });
+};
+
+// Puts every changed event back to its "before" state (undo) or forward to its "after" state (redo)
+export function applyChanges(
+  events: Record<string, Event[]>,
+  changes: EventChange[],
+  direction: "undo" | "redo"
+): Record<string, Event[]> {
+  const newEvents = { ...events };
+  changes.forEach((change) => {
+    removeEvent(newEvents, change.id);
+    const target = direction === "undo" ? change.before : change.after;
+    if (target) {
+      newEvents[target.dateKey] = [...(newEvents[target.dateKey] || []), target.event];
+    }
+  });
+  return newEvents;
+}
+
+// The changes that take events back from "after" to "before"
+export const invertChanges = (changes: EventChange[]): EventChange[] =>
+  changes.map(({ id, before, after }) => ({
+    id,
+    ...(after && { before: after }),
+    ...(before && { after: before }),
+  }));
+
+// Adds a change to the history; a new change discards anything that was undone
+export function recordHistory(history: HistoryState, entry: HistoryEntry): HistoryState {
+  if (entry.changes.length === 0 && !entry.removedCategory) return history;
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+export function loadHistory(): HistoryState {
+  try {
+    const stored = sessionStorage.getItem(HISTORY_STORAGE_KEY);
+    if (!stored) return emptyHistory;
+    const { version, past, future } = JSON.parse(stored);
+    // History written with another event schema could restore events in an old shape
+    if (version !== EVENT_SCHEMA_VERSION || !Array.isArray(past) || !Array.isArray(future)) {
+      return emptyHistory;
+    }
+    return { past, future };
+  } catch (error) {
+    console.error("Error loading undo history:", error);
+    return emptyHistory;
+  }
+}
+
+export function saveHistory(history: HistoryState) {
+  try {
+    sessionStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify({ version: EVENT_SCHEMA_VERSION, ...history }));
+  } catch (error) {
+    console.error("Error saving undo history:", error);
+  }
+}
@@ -0,0 +1,433 @@
+import { Event } from "./events";
+import { Category, DEFAULT_CATEGORIES, getCategoryName, getDefaultCategoryId, resolveCategoryId } from "./categories";
+import { toRRule } from "./recurrence";
+import { addDaysToKey, convertWallTime, getZoneOffset, isValidTimeZone } from "./dateKeys";
+
+// Suffix appended to event ids to form globally unique UIDs (RFC 5545 §3.8.4.7)
+const UID_DOMAIN = "@dynamic-event-calendar";
+const PRODID = "-//Dynamic Event Calendar//EN";
+const MAX_LINE_OCTETS = 75;
+
+const textEncoder = new TextEncoder();
+
+// Escapes TEXT values: backslash, semicolon, comma and newlines (RFC 5545 §3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+// Folds a content line into chunks of at most 75 octets, never splitting a UTF-8 character
+export function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = textEncoder.encode(char).length;
+    // Continuation lines spend one octet on the leading space
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+export function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+const formatLocalDateTime = (dateKey: string, time: string) =>
+  `${dateKey.replace(/-/g, "")}T${time.replace(":", "")}00`;
+
+const formatUtcTimestamp = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Reminder offset as a negative RFC 5545 duration, e.g. -PT10M or -P1D
+const formatTrigger = (minutes: number) =>
+  minutes === 0
+    ? "PT0M"
+    : minutes % (24 * 60) === 0
+      ? `-P${minutes / (24 * 60)}D`
+      : minutes % 60 === 0
+        ? `-PT${minutes / 60}H`
+        : `-PT${minutes}M`;
+
+// UTC offset as ±HHMM, or ±HHMMSS for the odd historical offset (RFC 5545 §3.3.14)
+const formatUtcOffset = (offsetMs: number) => {
+  const totalSeconds = Math.round(Math.abs(offsetMs) / 1000);
+  const seconds = totalSeconds % 60;
+  return (
+    `${offsetMs < 0 ? "-" : "+"}${pad(Math.floor(totalSeconds / 3600))}${pad(Math.floor(totalSeconds / 60) % 60)}` +
+    (seconds ? pad(seconds) : "")
+  );
+};
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Open-ended series get offset changes this many years past their last listed date
+const OPEN_SERIES_YEARS = 10;
+
+// A VTIMEZONE for an IANA zone (RFC 5545 §3.6.5). Each offset change between the two
+// years becomes its own observance, found by probing the zone's offset week by week
+// and narrowing down to the minute.
+function buildTimeZone(timeZone: string, fromYear: number, toYear: number): string[] {
+  // A day early, so midnight on January 1 is covered in zones ahead of UTC too
+  const rangeStart = Date.UTC(fromYear, 0, 1) - 24 * 60 * 60 * 1000;
+  const rangeEnd = Date.UTC(toYear + 1, 0, 1);
+  const initialOffset = getZoneOffset(rangeStart, timeZone);
+  // Observance starts are written in the local time in effect before them
+  const observance = (kind: "STANDARD" | "DAYLIGHT", start: number, from: number, to: number) => [
+    `BEGIN:${kind}`,
+    `DTSTART:${formatUtcTimestamp(new Date(start + from)).slice(0, -1)}`,
+    `TZOFFSETFROM:${formatUtcOffset(from)}`,
+    `TZOFFSETTO:${formatUtcOffset(to)}`,
+    `END:${kind}`,
+  ];
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`, ...observance("STANDARD", rangeStart, initialOffset, initialOffset)];
+  let offset = initialOffset;
+  for (let weekStart = rangeStart; weekStart < rangeEnd; weekStart += WEEK_MS) {
+    const weekEnd = Math.min(weekStart + WEEK_MS, rangeEnd);
+    const nextOffset = getZoneOffset(weekEnd, timeZone);
+    if (nextOffset === offset) continue;
+    let before = weekStart;
+    let after = weekEnd;
+    while (after - before > 60000) {
+      const middle = before + Math.floor((after - before) / 120000) * 60000;
+      if (getZoneOffset(middle, timeZone) === offset) before = middle;
+      else after = middle;
+    }
+    lines.push(...observance(nextOffset > offset ? "DAYLIGHT" : "STANDARD", after, offset, nextOffset));
+    offset = nextOffset;
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// One VTIMEZONE per zone the events use, covering every year they can occur in
+function buildTimeZones(entries: { dateKey: string; event: Event }[]): string[] {
+  const years = new Map<string, { from: number; to: number }>();
+  entries.forEach(({ dateKey, event }) => {
+    if (!event.timeZone) return;
+    const dates = [dateKey, event.endDate, ...(event.exceptionDates || []), event.recurrence?.until].filter(
+      (date): date is string => Boolean(date)
+    );
+    const from = Math.min(...dates.map((date) => Number(date.slice(0, 4))));
+    let to = Math.max(...dates.map((date) => Number(date.slice(0, 4))));
+    if (event.recurrence && !event.recurrence.until) to += OPEN_SERIES_YEARS;
+    const known = years.get(event.timeZone);
+    years.set(event.timeZone, known ? { from: Math.min(known.from, from), to: Math.max(known.to, to) } : { from, to });
+  });
+  return [...years].flatMap(([timeZone, { from, to }]) => buildTimeZone(timeZone, from, to));
+}
+
+export const eventUid = (id: string) => `${id}${UID_DOMAIN}`;
+
+export const idFromUid = (uid: string) =>
+  uid.endsWith(UID_DOMAIN) ? uid.slice(0, -UID_DOMAIN.length) : uid;
+
+// Serializes events as an RFC 5545 VCALENDAR with floating local times, or TZID-tagged
+// times with a matching VTIMEZONE for events that have a time zone
+export function eventsToICalendar(
+  entries: { dateKey: string; event: Event }[],
+  categories: Category[] = DEFAULT_CATEGORIES
+): string {
+  const stamp = formatUtcTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    ...buildTimeZones(entries),
+  ];
+
+  entries.forEach(({ dateKey, event }) => {
+    // Zoned events keep their wall-clock times, tagged with the IANA zone name
+    const zoneParam = event.timeZone ? `;TZID=${event.timeZone}` : "";
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(eventUid(event.id))}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART${zoneParam}:${formatLocalDateTime(dateKey, event.startTime)}`,
+      `DTEND${zoneParam}:${formatLocalDateTime(event.endDate || dateKey, event.endTime)}`,
+      `SUMMARY:${escapeText(event.title)}`
+    );
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.location) {
+      lines.push(`LOCATION:${escapeText(event.location)}`);
+    }
+    // URL may appear only once per event, so further links use an extension property
+    event.links?.forEach((link, index) => lines.push(index === 0 ? `URL:${link}` : `X-LINK;VALUE=URI:${link}`));
+    lines.push(`CATEGORIES:${escapeText(getCategoryName(categories, event.category))}`);
+    // COLOR only takes CSS color names (RFC 7986 §5.9); hex colors go in the Apple property
+    if (event.color) {
+      lines.push(
+        /^[a-z]+$/i.test(event.color)
+          ? `COLOR:${escapeText(event.color)}`
+          : `X-APPLE-CALENDAR-COLOR:${escapeText(event.color)}`
+      );
+    }
+    if (event.recurrence) {
+      lines.push(`RRULE:${toRRule(event.recurrence, dateKey, event.timeZone)}`);
+      if (event.exceptionDates?.length) {
+        lines.push(
+          `EXDATE${zoneParam}:${event.exceptionDates.map((exceptionDate) => formatLocalDateTime(exceptionDate, event.startTime)).join(",")}`
+        );
+      }
+    }
+    event.reminders?.forEach((minutes) => {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.title)}`,
+        `TRIGGER:${formatTrigger(minutes)}`,
+        "END:VALARM"
+      );
+    });
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+// Converts a DATE or DATE-TIME value into a local date key and HH:MM time
+function parseDateTime(value: string, params: Record<string, string>) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const isDate = params.VALUE === "DATE" || hours === undefined;
+
+  if (utc) {
+    const date = new Date(
+      Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)
+    );
+    return {
+      dateKey: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+      time: `${pad(date.getHours())}:${pad(date.getMinutes())}`,
+      isDate: false,
+    };
+  }
+
+  return {
+    dateKey: `${year}-${month}-${day}`,
+    time: isDate ? "00:00" : `${hours}:${minutes}`,
+    isDate,
+  };
+}
+
+// Reads a DURATION value such as PT1H30M or P1D into minutes
+function parseDuration(value: string): number | null {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, weeks = "0", days = "0", hours = "0", minutes = "0"] = match;
+  return ((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes;
+}
+
+// First of the listed categories the user has, or their default one
+const toCategory = (value: string, categories: Category[]): string =>
+  value
+    .split(",")
+    .map((name) => resolveCategoryId(categories, unescapeText(name)))
+    .find(Boolean) || getDefaultCategoryId(categories);
+
+// Reads VEVENTs into raw import records shaped like the JSON/CSV exports
+export function parseICalendar(
+  content: string,
+  categories: Category[] = DEFAULT_CATEGORIES
+): Record<string, unknown>[] {
+  const lines = unfoldLines(content);
+  if (!lines.some((line) => line.toUpperCase() === "BEGIN:VCALENDAR")) {
+    throw new Error("Not an iCalendar file (missing BEGIN:VCALENDAR)");
+  }
+
+  const records: Record<string, unknown>[] = [];
+  let current: Record<string, unknown> | null = null;
+  let end: ReturnType<typeof parseDateTime> = null;
+  let durationMinutes: number | null = null;
+  // Nested components such as VALARM carry their own properties
+  let nestedDepth = 0;
+
+  lines.forEach((line) => {
+    const parsed = parseContentLine(line);
+    if (!parsed) return;
+    const { name, params, value } = parsed;
+
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      current = {};
+      end = null;
+      durationMinutes = null;
+      return;
+    }
+    if (!current) return;
+
+    if (name === "BEGIN") {
+      nestedDepth++;
+      return;
+    }
+    if (name === "END" && nestedDepth > 0) {
+      nestedDepth--;
+      return;
+    }
+    if (nestedDepth > 0) {
+      // Alarms triggered before (or at) the start become reminders
+      if (name === "TRIGGER" && params.RELATED?.toUpperCase() !== "END" && params.VALUE?.toUpperCase() !== "DATE-TIME") {
+        const minutes = parseDuration(value.replace(/^-/, ""));
+        if (minutes !== null && (value.startsWith("-") || minutes === 0)) {
+          current.reminders = [...((current.reminders as number[]) || []), minutes];
+        }
+      }
+      return;
+    }
+
+    if (name === "END" && value.toUpperCase() === "VEVENT") {
+      const record: Record<string, unknown> = current;
+      // A UTC series end becomes the date it falls on in the event's own zone
+      if (typeof record.recurrence === "string" && typeof record.timeZone === "string") {
+        const zone = record.timeZone;
+        record.recurrence = record.recurrence.replace(
+          /UNTIL=(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})\d{2}Z/i,
+          (_, year: string, month: string, day: string, hours: string, minutes: string) =>
+            `UNTIL=${convertWallTime(`${year}-${month}-${day}`, `${hours}:${minutes}`, "UTC", zone).dateKey.replace(/-/g, "")}`
+        );
+      }
+      if (end && record.date) {
+        record.endTime = end.time;
+        if (end.dateKey !== record.date) record.endDate = end.dateKey;
+      } else if (durationMinutes !== null && typeof record.date === "string" && typeof record.startTime === "string") {
+        const endAt = new Date(`${record.date}T${record.startTime}:00Z`);
+        endAt.setUTCMinutes(endAt.getUTCMinutes() + durationMinutes);
+        const [endDate, endTime] = endAt.toISOString().slice(0, 16).split("T");
+        record.endTime = endTime;
+        if (endDate !== record.date) record.endDate = endDate;
+      }
+      records.push(record);
+      current = null;
+      return;
+    }
+
+    switch (name) {
+      case "UID":
+        current.id = idFromUid(unescapeText(value));
+        break;
+      case "SUMMARY":
+        current.title = unescapeText(value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(value);
+        break;
+      case "URL":
+        current.links = [value, ...((current.links as string[] | undefined) || [])];
+        break;
+      case "X-LINK":
+        current.links = [...((current.links as string[] | undefined) || []), value];
+        break;
+      case "CATEGORIES":
+        current.category = toCategory(value, categories);
+        break;
+      // The exact hex color wins over a color name given alongside it
+      case "COLOR":
+        current.color ??= unescapeText(value);
+        break;
+      case "X-APPLE-CALENDAR-COLOR":
+        current.color = unescapeText(value);
+        break;
+      case "DTSTART": {
+        const start = parseDateTime(value, params);
+        if (start) {
+          current.date = start.dateKey;
+          current.startTime = start.time;
+          if (params.TZID && !start.isDate && isValidTimeZone(params.TZID)) {
+            current.timeZone = params.TZID;
+          }
+          if (start.isDate && !end) {
+            current.endTime = "23:59";
+          }
+        }
+        break;
+      }
+      case "RRULE":
+        current.recurrence = value;
+        break;
+      case "EXDATE":
+        current.exceptionDates = [
+          ...((current.exceptionDates as string[]) || []),
+          ...value
+            .split(",")
+            .map((exceptionDate) => parseDateTime(exceptionDate, params)?.dateKey)
+            .filter((dateKey): dateKey is string => Boolean(dateKey)),
+        ];
+        break;
+      case "DURATION":
+        durationMinutes = parseDuration(value);
+        break;
+      case "DTEND":
+        end = parseDateTime(value, params);
+        // All-day DTEND is exclusive, so the event runs to the end of the previous day
+        if (end?.isDate) {
+          end = { dateKey: addDaysToKey(end.dateKey, -1), time: "23:59", isDate: true };
+        }
+        break;
+    }
+  });
+
+  return records;
+}
@@ -0,0 +1,351 @@
+import { Event, generateEventId, hasTimeOverlap, listEvents } from "./events";
+import { Category, DEFAULT_CATEGORIES, getDefaultCategoryId, resolveCategoryId } from "./categories";
+import { parseICalendar } from "./ical";
+import { readAttendees } from "./attendees";
+import { RecurrenceRule, readRecurrence } from "./recurrence";
+import { eventInputSchema, formatIssues, getPayloadVersion, migrateEventRecord } from "./eventSchema";
+
+export type ImportFormat = "json" | "csv" | "ics";
+
+export interface ImportRow {
+  line: number;
+  dateKey: string;
+  event: Event;
+}
+
+export interface InvalidImportRow {
+  line: number;
+  errors: string[];
+}
+
+export type ImportStatus = "add" | "skip" | "conflict";
+
+export interface ImportPreviewItem {
+  line: number;
+  status: ImportStatus;
+  reasons: string[];
+  dateKey?: string;
+  event?: Event;
+}
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function detectImportFormat(fileName: string, content: string): ImportFormat {
+  if (fileName.toLowerCase().endsWith(".csv")) return "csv";
+  if (fileName.toLowerCase().endsWith(".json")) return "json";
+  if (fileName.toLowerCase().endsWith(".ics")) return "ics";
+  const trimmed = content.trimStart();
+  if (trimmed.toUpperCase().startsWith("BEGIN:VCALENDAR")) return "ics";
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? "json" : "csv";
+}
+
+// Splits CSV text into rows of fields, honouring quoted fields, doubled quotes and CRLF
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ""));
+}
+
+// Upgrades an imported record, keeping its category as written: the import resolves it by
+// id or name against the user's categories, where the migrations only know the defaults
+const migrateImportRecord = (record: Record<string, unknown>, fromVersion: number) => ({
+  ...migrateEventRecord(record, fromVersion),
+  category: record.category,
+});
+
+// Reads raw records out of a JSON export: either an array of events carrying a
+// `date` field, or the stored `Record<dateKey, Event[]>` map. Both may be wrapped in a
+// versioned `{ version, events }` payload; records from older versions are upgraded.
+function readJsonRecords(content: string): Record<string, unknown>[] {
+  const payload: unknown = JSON.parse(content);
+  const version = getPayloadVersion(payload);
+  const data = version === 1 ? payload : (payload as { events?: unknown }).events;
+
+  const upgrade = (item: unknown, dateKey?: string) =>
+    migrateImportRecord(
+      { ...(dateKey && { date: dateKey }), ...(item && typeof item === "object" ? item : {}) },
+      version
+    );
+
+  if (Array.isArray(data)) {
+    return data.map((item) => upgrade(item));
+  }
+
+  if (data && typeof data === "object") {
+    return Object.entries(data as Record<string, unknown>).flatMap(([dateKey, dayEvents]) =>
+      Array.isArray(dayEvents) ? dayEvents.map((item) => upgrade(item, dateKey)) : []
+    );
+  }
+
+  throw new Error("Expected an array of events or a map of dates to events");
+}
+
+// Reads raw records out of a CSV export. Rows are upgraded like JSON records, from the
+// schema version in their `version` column or from version 1 when there is none.
+function readCsvRecords(content: string): Record<string, unknown>[] {
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers) return [];
+
+  const keys = headers.map((header) => header.trim());
+  return rows.map((fields) => {
+    const { version, ...record } = Object.fromEntries(keys.map((key, index) => [key, fields[index] ?? ""]));
+    const fromVersion = version?.trim() ? getPayloadVersion({ version: Number(version) }) : 1;
+    return migrateImportRecord(record, Number.isInteger(fromVersion) ? fromVersion : 1);
+  });
+}
+
+const asString = (value: unknown): string =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+// Exception dates arrive as an array in JSON and as a ";"-separated list in CSV
+const asDateKeys = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(asString) : asString(value).split(/[;,]/))
+    .map((dateKey) => dateKey.trim())
+    .filter(Boolean);
+
+// Reminder offsets arrive as an array in JSON and as a ";"-separated list in CSV
+const asReminders = (value: unknown): number[] =>
+  (Array.isArray(value) ? value.map(asString) : asString(value).split(/[;,]/))
+    .map((minutes) => minutes.trim())
+    .filter(Boolean)
+    .map(Number);
+
+// Links arrive as an array in JSON and as a space-separated list in CSV
+const asLinks = (value: unknown): string[] =>
+  (Array.isArray(value) ? value.map(asString) : asString(value).split(/\s+/)).filter(Boolean);
+
+// Optional text fields arrive as "" from CSV and are left out instead
+const asOptionalString = (value: unknown): string | undefined => asString(value) || undefined;
+
+// Validates one raw record with the same rules as the event form. Categories are matched
+// by id or name.
+export function validateImportRecord(
+  record: Record<string, unknown>,
+  line: number,
+  categories: Category[] = DEFAULT_CATEGORIES
+): ImportRow | InvalidImportRow {
+  const errors: string[] = [];
+
+  const categoryName = asString(record.category);
+  const category = categoryName ? resolveCategoryId(categories, categoryName) : getDefaultCategoryId(categories);
+  if (!category) {
+    errors.push(`Unknown category "${categoryName}"`);
+  }
+
+  const fields = eventInputSchema.safeParse({
+    title: asString(record.title),
+    date: asString(record.date),
+    endDate: asOptionalString(record.endDate),
+    startTime: asString(record.startTime),
+    endTime: asString(record.endTime),
+    description: asOptionalString(record.description),
+    category: category || categoryName,
+    color: asOptionalString(record.color),
+    timeZone: asOptionalString(record.timeZone),
+    attendees: readAttendees(record.attendees),
+    location: asOptionalString(record.location),
+    links: asLinks(record.links),
+  });
+  if (!fields.success) {
+    errors.push(...formatIssues(fields.error));
+  }
+
+  let recurrence: RecurrenceRule | undefined;
+  try {
+    recurrence = readRecurrence(record.recurrence);
+  } catch (err) {
+    errors.push(err instanceof Error ? err.message : "Invalid recurrence");
+  }
+
+  const exceptionDates = asDateKeys(record.exceptionDates);
+  if (exceptionDates.some((exceptionDate) => !DATE_KEY_PATTERN.test(exceptionDate))) {
+    errors.push("Invalid exception date (expected YYYY-MM-DD)");
+  }
+
+  const reminders = asReminders(record.reminders);
+  if (reminders.some((minutes) => !Number.isInteger(minutes) || minutes < 0)) {
+    errors.push("Invalid reminder (expected whole minutes before the start)");
+  }
+
+  if (errors.length > 0 || !category || !fields.success) {
+    return { line, errors };
+  }
+
+  const {
+    date: dateKey,
+    endDate,
+    title,
+    startTime,
+    endTime,
+    description,
+    color,
+    timeZone,
+    attendees = [],
+    location,
+    links = [],
+  } = fields.data;
+  const recurringEventId = asString(record.recurringEventId);
+
+  return {
+    line,
+    dateKey,
+    event: {
+      id: asString(record.id) || generateEventId(),
+      title,
+      startTime,
+      endTime,
+      category,
+      ...(description && { description }),
+      ...(color && { color }),
+      ...(endDate && endDate > dateKey && { endDate }),
+      ...(recurrence && { recurrence }),
+      ...(recurrence && exceptionDates.length > 0 && { exceptionDates }),
+      ...(recurringEventId && { recurringEventId }),
+      ...(timeZone && { timeZone }),
+      ...(reminders.length > 0 && { reminders }),
+      ...(attendees.length > 0 && {
+        attendees: attendees.map(({ role, ...attendee }) => ({ ...attendee, ...(role && { role }) })),
+      }),
+      ...(location && { location }),
+      ...(links.length > 0 && { links }),
+    },
+  };
+}
+
+export function parseImportFile(
+  content: string,
+  format: ImportFormat,
+  categories: Category[] = DEFAULT_CATEGORIES
+): (ImportRow | InvalidImportRow)[] {
+  const readers: Record<ImportFormat, (content: string) => Record<string, unknown>[]> = {
+    json: readJsonRecords,
+    csv: readCsvRecords,
+    ics: (content) => parseICalendar(content, categories),
+  };
+  const records = readers[format](content);
+  // CSV line numbers account for the header row
+  const offset = format === "csv" ? 2 : 1;
+  return records.map((record, index) => validateImportRecord(record, index + offset, categories));
+}
+
+const isSameEvent = (a: Event, b: Event) =>
+  a.title === b.title &&
+  a.startTime === b.startTime &&
+  a.endTime === b.endTime &&
+  (a.endDate || "") === (b.endDate || "") &&
+  (a.description || "") === (b.description || "") &&
+  a.category === b.category &&
+  (a.color || "") === (b.color || "") &&
+  (a.timeZone || "") === (b.timeZone || "") &&
+  JSON.stringify(a.recurrence || null) === JSON.stringify(b.recurrence || null) &&
+  (a.exceptionDates || []).join() === (b.exceptionDates || []).join() &&
+  (a.reminders || []).join() === (b.reminders || []).join() &&
+  JSON.stringify(a.attendees || []) === JSON.stringify(b.attendees || []) &&
+  (a.location || "") === (b.location || "") &&
+  (a.links || []).join() === (b.links || []).join();
+
+// Classifies each parsed row as something to add, skip, or a conflict with the current store
+export function buildImportPreview(
+  rows: (ImportRow | InvalidImportRow)[],
+  events: Record<string, Event[]>
+): ImportPreviewItem[] {
+  const existingById = new Map<string, { dateKey: string; event: Event }>();
+  Object.entries(events).forEach(([dateKey, dayEvents]) =>
+    dayEvents.forEach((event) => existingById.set(event.id, { dateKey, event }))
+  );
+
+  const seenIds = new Set<string>();
+  const incoming: { dateKey: string; event: Event }[] = [];
+
+  return rows.map((row): ImportPreviewItem => {
+    if ("errors" in row) {
+      return { line: row.line, status: "skip", reasons: row.errors };
+    }
+
+    const { line, dateKey, event } = row;
+
+    if (seenIds.has(event.id)) {
+      return { line, status: "skip", reasons: ["Duplicate id in file"], dateKey, event };
+    }
+    seenIds.add(event.id);
+
+    const existing = existingById.get(event.id);
+    if (existing && existing.dateKey === dateKey && isSameEvent(existing.event, event)) {
+      return { line, status: "skip", reasons: ["Already in calendar"], dateKey, event };
+    }
+
+    const reasons: string[] = [];
+    if (existing) {
+      reasons.push(`Replaces "${existing.event.title}" on ${existing.dateKey}`);
+    }
+
+    const clashes = [...listEvents(events), ...incoming].filter(
+      (other) => other.event.id !== event.id && hasTimeOverlap(other.event, event, other.dateKey, dateKey)
+    );
+    clashes.forEach((other) =>
+      reasons.push(
+        `Overlaps "${other.event.title}" (${other.dateKey} ${other.event.startTime} - ${other.event.endTime})`
+      )
+    );
+
+    incoming.push({ dateKey, event });
+
+    return { line, status: reasons.length > 0 ? "conflict" : "add", reasons, dateKey, event };
+  });
+}
+
+// Merges the accepted rows into the store; events with an existing id replace the stored copy
+export function mergeImportedEvents(
+  events: Record<string, Event[]>,
+  accepted: { dateKey: string; event: Event }[]
+): Record<string, Event[]> {
+  const acceptedIds = new Set(accepted.map(({ event }) => event.id));
+  const newEvents: Record<string, Event[]> = {};
+
+  Object.entries(events).forEach(([dateKey, dayEvents]) => {
+    const remaining = dayEvents.filter((event) => !acceptedIds.has(event.id));
+    if (remaining.length > 0) newEvents[dateKey] = remaining;
+  });
+
+  accepted.forEach(({ dateKey, event }) => {
+    newEvents[dateKey] = [...(newEvents[dateKey] || []), event];
+  });
+
+  return newEvents;
+}
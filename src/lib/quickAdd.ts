@@ -0,0 +1,182 @@
+import { Event, eventInputSchema } from "./eventSchema";
+import { Category, getDefaultCategoryId, resolveCategoryId } from "./categories";
+import { addDaysToKey, keyFromUtcDate, parseDateKey } from "./dateKeys";
+import { toMinutes, toTime } from "./freeSlots";
+
+// An event read from a phrase such as "Design review tomorrow 14:00-15:30 #work"
+export interface QuickAddResult {
+  dateKey: string;
+  event: Omit<Event, "id">;
+  // Parts of the phrase that couldn't be used; the event can't be added while there are any
+  errors: string[];
+}
+
+export const QUICK_ADD_HELP =
+  "Type a title with a day (today, tomorrow, fri, next mon, in 3 days, oct 30, 2026-10-30), a time (14:00-15:30, 9am, at 3pm for 45m) and #category";
+
+const DEFAULT_START = "09:00";
+const DEFAULT_DURATION = 60;
+const DAY_MINUTES = 24 * 60;
+
+const WEEKDAYS = /\b(next\s+)?(sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?)\b/i;
+const MONTHS =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const TIME = "(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?";
+const TIME_RANGE = new RegExp(`\\b(?:from\\s+)?${TIME}\\s*(?:-|–|to)\\s*${TIME}(?![\\w:])`, "i");
+// A lone time needs minutes, am/pm or a leading "at", so numbers in titles stay put
+const SINGLE_TIME = new RegExp(`\\b(?:at\\s+${TIME}|(\\d{1,2}):(\\d{2})\\s*(am|pm)?|(\\d{1,2})\\s*(am|pm))(?![\\w:])`, "i");
+const DURATION = /\bfor\s+(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?)(?:\s*(\d+)\s*(?:m|mins?|minutes?))?\b/i;
+
+const monthIndex = (name: string) =>
+  ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"].indexOf(name.slice(0, 3).toLowerCase());
+
+// Minutes from midnight for a written time, or undefined when it isn't a clock time
+function readTime(hours: string, minutes: string | undefined, meridiem: string | undefined): number | undefined {
+  let hour = Number(hours);
+  const minute = minutes ? Number(minutes) : 0;
+  if (minute > 59) return undefined;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem.toLowerCase() === "pm" ? 12 : 0);
+  } else if (hour > 23) {
+    return undefined;
+  }
+  return hour * 60 + minute;
+}
+
+// The next date with the given day and month, this year or next
+function nextDate(todayKey: string, month: number, day: number): string | undefined {
+  const year = parseDateKey(todayKey).getUTCFullYear();
+  for (const candidateYear of [year, year + 1]) {
+    const date = new Date(Date.UTC(candidateYear, month, day));
+    if (date.getUTCMonth() !== month) return undefined;
+    const dateKey = keyFromUtcDate(date);
+    if (dateKey >= todayKey) return dateKey;
+  }
+  return undefined;
+}
+
+export function parseQuickAdd(input: string, todayKey: string, categories: Category[]): QuickAddResult | null {
+  if (!input.trim()) return null;
+  let rest = ` ${input} `;
+  const errors: string[] = [];
+  // Removes a matched part of the phrase so what's left becomes the title
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = rest.match(pattern);
+    if (match) rest = rest.replace(match[0], " ");
+    return match;
+  };
+
+  let category = getDefaultCategoryId(categories);
+  const tag = take(/(?:^|\s)#([\w-]+)/);
+  if (tag) {
+    const resolved = resolveCategoryId(categories, tag[1].replace(/-/g, " ")) || resolveCategoryId(categories, tag[1]);
+    if (resolved) {
+      category = resolved;
+    } else {
+      errors.push(`Unknown category "#${tag[1]}"`);
+    }
+  }
+
+  // Dates
+  let dateKey = todayKey;
+  let match: RegExpMatchArray | null;
+  if ((match = take(/\b(\d{4}-\d{2}-\d{2})\b/))) {
+    dateKey = match[1];
+  } else if ((match = take(/\b(today|tonight|tomorrow|tmrw)\b/i))) {
+    dateKey = /^to(day|night)$/i.test(match[1]) ? todayKey : addDaysToKey(todayKey, 1);
+  } else if ((match = take(/\bin\s+(\d+)\s+(days?|weeks?)\b/i))) {
+    dateKey = addDaysToKey(todayKey, Number(match[1]) * (/^week/i.test(match[2]) ? 7 : 1));
+  } else if ((match = take(/\bnext\s+week\b/i))) {
+    dateKey = addDaysToKey(todayKey, 7);
+  } else if ((match = take(WEEKDAYS))) {
+    const weekday = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"].indexOf(match[2].slice(0, 3).toLowerCase());
+    // "fri" is the coming Friday, today included; "next fri" is the first one after today
+    const offset = (weekday - parseDateKey(todayKey).getUTCDay() + 7) % 7;
+    dateKey = addDaysToKey(todayKey, match[1] && offset === 0 ? 7 : offset);
+  } else if (
+    (match = take(new RegExp(`\\b${MONTHS}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i"))) ||
+    (match = take(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTHS}\\b`, "i")))
+  ) {
+    const [month, day] = /^\d/.test(match[1]) ? [match[2], match[1]] : [match[1], match[2]];
+    const found = nextDate(todayKey, monthIndex(month), Number(day));
+    if (found) {
+      dateKey = found;
+    } else {
+      errors.push(`There is no ${match[0].trim()}`);
+    }
+  }
+
+  // Times
+  let start = toMinutes(DEFAULT_START);
+  let end: number | undefined;
+  const duration = take(DURATION);
+  const range = take(TIME_RANGE);
+  if (range) {
+    const [, startHours, startMinutes, startMeridiem, endHours, endMinutes, endMeridiem] = range;
+    let readStart = readTime(startHours, startMinutes, startMeridiem || endMeridiem);
+    let readEnd = readTime(endHours, endMinutes, endMeridiem);
+    if (readStart === undefined || readEnd === undefined) {
+      errors.push(`Can't read the time "${range[0].trim()}"`);
+    } else {
+      // "11-1pm" starts in the morning; "2pm-3" and "9-5" end in the afternoon
+      if (!startMeridiem && endMeridiem && readStart > readEnd && readStart >= DAY_MINUTES / 2) {
+        readStart -= DAY_MINUTES / 2;
+      }
+      if (!endMeridiem && readEnd <= readStart && readEnd < DAY_MINUTES / 2 && readEnd + DAY_MINUTES / 2 > readStart) {
+        readEnd += DAY_MINUTES / 2;
+      }
+      start = readStart;
+      end = readEnd;
+    }
+  } else {
+    const single = take(SINGLE_TIME);
+    if (single) {
+      const [, atHours, atMinutes, atMeridiem, hours, minutes, meridiem, bareHours, bareMeridiem] = single;
+      const readStart = atHours
+        ? readTime(atHours, atMinutes, atMeridiem)
+        : hours
+          ? readTime(hours, minutes, meridiem)
+          : readTime(bareHours, undefined, bareMeridiem);
+      if (readStart === undefined) {
+        errors.push(`Can't read the time "${single[0].trim()}"`);
+      } else {
+        start = readStart;
+      }
+    }
+  }
+
+  if (end === undefined) {
+    const minutes = duration
+      ? Math.round(Number(duration[1]) * (/^h/i.test(duration[2]) ? 60 : 1) + Number(duration[3] || 0))
+      : DEFAULT_DURATION;
+    if (minutes <= 0) errors.push("The length must be more than 0 minutes");
+    end = start + Math.max(minutes, 1);
+  } else if (end <= start) {
+    // "22:00-01:00" ends the next day
+    end += DAY_MINUTES;
+  }
+
+  const title = rest
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(?:on|at|from)\s+|\s+(?:on|at|from|for|in)$/i, "")
+    .trim();
+
+  const endDate = addDaysToKey(dateKey, Math.floor(end / DAY_MINUTES));
+  const event: Omit<Event, "id"> = {
+    title,
+    startTime: toTime(start),
+    endTime: toTime(end % DAY_MINUTES),
+    category,
+    ...(endDate > dateKey && { endDate }),
+  };
+
+  // The same rules as the event form, e.g. a title is needed
+  const checked = eventInputSchema.safeParse({ ...event, date: dateKey });
+  if (!checked.success) {
+    errors.push(...checked.error.issues.map((issue) => issue.message));
+  }
+
+  return { dateKey, event, errors };
+}
@@ -0,0 +1,415 @@
+import { Event, findEventDateKey, getEventEndDateKey } from "./events";
+import { addDaysToKey, convertWallTime, daysBetweenKeys, keyFromUtcDate, parseDateKey } from "./dateKeys";
+import { RecurrenceRule } from "./eventSchema";
+
+export type { RecurrenceRule };
+export type RecurrenceFrequency = RecurrenceRule["frequency"];
+
+export type RecurrenceScope = "this" | "following" | "all";
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const ORDINALS = ["", "1st", "2nd", "3rd", "4th", "last"];
+
+// Guards against runaway expansion of malformed rules
+const MAX_ITERATIONS = 50000;
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Ordinal of the start date's weekday within its month; 5 means "last"
+export const getNthWeekday = (date: Date) => {
+  const nth = Math.ceil(date.getUTCDate() / 7);
+  const isLast = date.getUTCDate() + 7 > daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+  return isLast && nth >= 4 ? 5 : nth;
+};
+
+const nthWeekdayOfMonth = (year: number, month: number, weekday: number, nth: number): Date | null => {
+  if (nth === 5) {
+    const last = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  const day = 1 + ((weekday - first.getUTCDay() + 7) % 7) + (nth - 1) * 7;
+  return day <= daysInMonth(year, month) ? new Date(Date.UTC(year, month, day)) : null;
+};
+
+// Candidate dates for the nth period of a rule, in ascending order
+function getPeriodDates(start: Date, rule: RecurrenceRule, period: number): Date[] {
+  const step = period * Math.max(1, rule.interval);
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+
+  switch (rule.frequency) {
+    case "daily":
+      return [new Date(Date.UTC(year, month, day + step))];
+    case "weekly": {
+      const weekdays = rule.weekdays?.length ? [...rule.weekdays].sort((a, b) => a - b) : [start.getUTCDay()];
+      const weekStart = day - start.getUTCDay() + step * 7;
+      return weekdays.map((weekday) => new Date(Date.UTC(year, month, weekStart + weekday)));
+    }
+    case "monthly": {
+      const targetYear = year + Math.floor((month + step) / 12);
+      const targetMonth = (month + step) % 12;
+      if (rule.monthlyMode === "nthWeekday") {
+        const date = nthWeekdayOfMonth(targetYear, targetMonth, start.getUTCDay(), getNthWeekday(start));
+        return date ? [date] : [];
+      }
+      // Months without the start date (e.g. the 31st) are skipped, as in RFC 5545
+      return day <= daysInMonth(targetYear, targetMonth)
+        ? [new Date(Date.UTC(targetYear, targetMonth, day))]
+        : [];
+    }
+    case "yearly":
+      return day <= daysInMonth(year + step, month)
+        ? [new Date(Date.UTC(year + step, month, day))]
+        : [];
+  }
+}
+
+// Lists the occurrence date keys of a series between rangeStart and rangeEnd (inclusive)
+export function getOccurrenceDates(
+  startKey: string,
+  rule: RecurrenceRule,
+  rangeStart: string,
+  rangeEnd: string,
+  exceptionDates: string[] = []
+): string[] {
+  const start = parseDateKey(startKey);
+  const dates: string[] = [];
+  let generated = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    for (const date of getPeriodDates(start, rule, period)) {
+      if (date < start) continue;
+
+      const dateKey = keyFromUtcDate(date);
+      if ((rule.until && dateKey > rule.until) || dateKey > rangeEnd) return dates;
+      if (rule.count !== undefined && generated >= rule.count) return dates;
+
+      // Excluded occurrences still count towards COUNT
+      generated++;
+      if (dateKey >= rangeStart && !exceptionDates.includes(dateKey)) {
+        dates.push(dateKey);
+      }
+    }
+  }
+
+  return dates;
+}
+
+// Counts the occurrences of a series that fall before the given date key
+export function countOccurrencesBefore(startKey: string, rule: RecurrenceRule, dateKey: string): number {
+  if (dateKey <= startKey) return 0;
+  return getOccurrenceDates(startKey, rule, startKey, addDaysToKey(dateKey, -1)).length;
+}
+
+// Expands the stored map into the events visible on each date in the range,
+// placing a copy of every recurring series on each of its occurrence dates.
+// Multi-day occurrences carry an end date shifted to match their own start.
+export function expandEvents(
+  events: Record<string, Event[]>,
+  rangeStart: string,
+  rangeEnd: string
+): Record<string, Event[]> {
+  const expanded: Record<string, Event[]> = {};
+  const add = (dateKey: string, event: Event) => {
+    expanded[dateKey] = [...(expanded[dateKey] || []), event];
+  };
+
+  Object.entries(events).forEach(([dateKey, dayEvents]) => {
+    dayEvents.forEach((event) => {
+      // Multi-day events that start before the range still show up in it
+      const spanDays = daysBetweenKeys(dateKey, getEventEndDateKey(event, dateKey));
+
+      if (!event.recurrence) {
+        if (dateKey >= addDaysToKey(rangeStart, -spanDays) && dateKey <= rangeEnd) add(dateKey, event);
+        return;
+      }
+      getOccurrenceDates(
+        dateKey,
+        event.recurrence,
+        addDaysToKey(rangeStart, -spanDays),
+        rangeEnd,
+        event.exceptionDates
+      ).forEach((occurrenceKey) => add(occurrenceKey, shiftEndDate(event, dateKey, occurrenceKey)));
+    });
+  });
+
+  return expanded;
+}
+
+export function describeRecurrence(rule: RecurrenceRule, startKey: string): string {
+  const start = parseDateKey(startKey);
+  const interval = Math.max(1, rule.interval);
+  const units = { daily: "day", weekly: "week", monthly: "month", yearly: "year" };
+  let text = interval === 1 ? `Every ${units[rule.frequency]}` : `Every ${interval} ${units[rule.frequency]}s`;
+
+  if (rule.frequency === "weekly") {
+    const weekdays = rule.weekdays?.length ? [...rule.weekdays].sort((a, b) => a - b) : [start.getUTCDay()];
+    text += ` on ${weekdays.map((weekday) => WEEKDAY_NAMES[weekday]).join(", ")}`;
+  } else if (rule.frequency === "monthly") {
+    text +=
+      rule.monthlyMode === "nthWeekday"
+        ? ` on the ${ORDINALS[getNthWeekday(start)]} ${WEEKDAY_NAMES[start.getUTCDay()]}`
+        : ` on day ${start.getUTCDate()}`;
+  }
+
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count !== undefined) text += `, ${rule.count} times`;
+  return text;
+}
+
+// Serializes a rule as an RFC 5545 RRULE value (without the "RRULE:" prefix)
+// With a time zone the end is written as a UTC instant, as RFC 5545 requires when the
+// start carries a TZID
+export function toRRule(rule: RecurrenceRule, startKey: string, timeZone?: string): string {
+  const start = parseDateKey(startKey);
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === "weekly" && rule.weekdays?.length) {
+    parts.push(`BYDAY=${[...rule.weekdays].sort((a, b) => a - b).map((weekday) => WEEKDAY_CODES[weekday]).join(",")}`);
+  }
+  if (rule.frequency === "monthly" && rule.monthlyMode === "nthWeekday") {
+    const nth = getNthWeekday(start);
+    parts.push(`BYDAY=${nth === 5 ? -1 : nth}${WEEKDAY_CODES[start.getUTCDay()]}`);
+  }
+  if (rule.until) {
+    const end = timeZone ? convertWallTime(rule.until, "23:59", timeZone, "UTC") : { dateKey: rule.until, time: "23:59" };
+    parts.push(`UNTIL=${end.dateKey.replace(/-/g, "")}T${end.time.replace(":", "")}59${timeZone ? "Z" : ""}`);
+  }
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(";");
+}
+
+// Reads an RRULE value back into a rule; only the subset produced by toRRule is supported
+export function parseRRule(value: string): RecurrenceRule {
+  const parts = Object.fromEntries(
+    value
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .map((part) => part.split("=") as [string, string])
+      .map(([key, val]) => [key.toUpperCase(), (val || "").toUpperCase()])
+  );
+
+  const frequency = (parts.FREQ || "").toLowerCase() as RecurrenceFrequency;
+  if (!["daily", "weekly", "monthly", "yearly"].includes(frequency)) {
+    throw new Error(`Unsupported recurrence frequency "${parts.FREQ || ""}"`);
+  }
+
+  const rule: RecurrenceRule = { frequency, interval: parts.INTERVAL ? Number(parts.INTERVAL) : 1 };
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new Error(`Invalid recurrence interval "${parts.INTERVAL}"`);
+  }
+
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(",");
+    if (frequency === "monthly" && /^-?\d/.test(days[0])) {
+      rule.monthlyMode = "nthWeekday";
+    } else if (frequency === "weekly") {
+      rule.weekdays = days.map((code: string) => {
+        const weekday = WEEKDAY_CODES.indexOf(code.slice(-2));
+        if (weekday === -1) throw new Error(`Invalid weekday "${code}"`);
+        return weekday;
+      });
+    }
+  } else if (frequency === "monthly") {
+    rule.monthlyMode = "dayOfMonth";
+  }
+
+  if (parts.UNTIL) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL);
+    if (!match) throw new Error(`Invalid recurrence end "${parts.UNTIL}"`);
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  if (parts.COUNT) {
+    rule.count = Number(parts.COUNT);
+    if (!Number.isInteger(rule.count) || rule.count < 1) {
+      throw new Error(`Invalid recurrence count "${parts.COUNT}"`);
+    }
+  }
+
+  return rule;
+}
+
+// Accepts a rule as stored in JSON or as an RRULE string, as found in imports
+export function readRecurrence(value: unknown): RecurrenceRule | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "string") return parseRRule(value);
+
+  const rule = value as Partial<RecurrenceRule>;
+  if (!rule.frequency || !["daily", "weekly", "monthly", "yearly"].includes(rule.frequency)) {
+    throw new Error("Invalid recurrence frequency");
+  }
+  return {
+    frequency: rule.frequency,
+    interval: Math.max(1, Number(rule.interval) || 1),
+    ...(rule.weekdays && { weekdays: rule.weekdays.map(Number) }),
+    ...(rule.monthlyMode && { monthlyMode: rule.monthlyMode }),
+    ...(rule.until && { until: String(rule.until) }),
+    ...(rule.count !== undefined && { count: Number(rule.count) }),
+  };
+}
+
+const removeFromMap = (events: Record<string, Event[]>, id: string) => {
+  const newEvents: Record<string, Event[]> = {};
+  Object.entries(events).forEach(([dateKey, dayEvents]) => {
+    const remaining = dayEvents.filter((event) => event.id !== id);
+    if (remaining.length > 0) newEvents[dateKey] = remaining;
+  });
+  return newEvents;
+};
+
+// Ends a series on the day before the given occurrence, converting COUNT to UNTIL
+const truncateSeries = (series: Event, occurrenceKey: string): Event => {
+  const rule: RecurrenceRule = { ...series.recurrence!, until: addDaysToKey(occurrenceKey, -1) };
+  delete rule.count;
+  return {
+    ...series,
+    recurrence: rule,
+    exceptionDates: series.exceptionDates?.filter((dateKey) => dateKey < occurrenceKey),
+  };
+};
+
+const stripRecurrence = <T extends Partial<Event>>(event: T): T => {
+  const copy = { ...event };
+  delete copy.recurrence;
+  delete copy.exceptionDates;
+  return copy;
+};
+
+const replaceInMap = (events: Record<string, Event[]>, dateKey: string, event: Event) => ({
+  ...events,
+  [dateKey]: events[dateKey].map((existing) => (existing.id === event.id ? event : existing)),
+});
+
+const addToMap = (events: Record<string, Event[]>, dateKey: string, event: Event) => ({
+  ...events,
+  [dateKey]: [...(events[dateKey] || []), event],
+});
+
+// The stored series, as expanded occurrences carry per-occurrence end dates
+const findSeries = (events: Record<string, Event[]>, id: string) => {
+  const seriesKey = findEventDateKey(events, id);
+  const series = seriesKey ? events[seriesKey].find((event) => event.id === id) : undefined;
+  return seriesKey && series ? { seriesKey, series } : null;
+};
+
+// Moves a multi-day event's end date along with its start date
+export const shiftEndDate = <T extends Partial<Event>>(event: T, fromKey: string, toKey: string): T =>
+  event.endDate ? { ...event, endDate: addDaysToKey(event.endDate, daysBetweenKeys(fromKey, toKey)) } : event;
+
+// Deletes one occurrence, the occurrence and everything after it, or the whole series
+export function deleteOccurrence(
+  events: Record<string, Event[]>,
+  seriesId: string,
+  occurrenceKey: string,
+  scope: RecurrenceScope
+): Record<string, Event[]> {
+  const found = findSeries(events, seriesId);
+  if (!found) return events;
+  const { seriesKey, series } = found;
+
+  if (scope === "all" || (scope === "following" && occurrenceKey <= seriesKey)) {
+    return removeFromMap(events, series.id);
+  }
+
+  if (scope === "following") {
+    return replaceInMap(events, seriesKey, truncateSeries(series, occurrenceKey));
+  }
+
+  return replaceInMap(events, seriesKey, {
+    ...series,
+    exceptionDates: [...(series.exceptionDates || []), occurrenceKey],
+  });
+}
+
+// Applies an edit to one occurrence, the occurrence and everything after it, or the whole series.
+// targetKey is the start date chosen in the form, which may move the occurrence to another day.
+export function updateOccurrence(
+  events: Record<string, Event[]>,
+  seriesId: string,
+  occurrenceKey: string,
+  changes: Omit<Event, "id">,
+  scope: RecurrenceScope,
+  newId: string,
+  targetKey: string = occurrenceKey
+): Record<string, Event[]> {
+  const found = findSeries(events, seriesId);
+  if (!found) return events;
+  const { seriesKey, series } = found;
+
+  if (scope === "all" || (scope === "following" && occurrenceKey <= seriesKey)) {
+    // Moving one occurrence of the whole series moves the series start by the same number of days
+    const offset = daysBetweenKeys(occurrenceKey, targetKey);
+    const newSeriesKey = addDaysToKey(seriesKey, offset);
+    const updated: Event = {
+      ...shiftEndDate(changes, targetKey, newSeriesKey),
+      id: series.id,
+      ...(changes.recurrence && {
+        exceptionDates: series.exceptionDates?.map((dateKey) => addDaysToKey(dateKey, offset)),
+      }),
+    };
+    return newSeriesKey === seriesKey
+      ? replaceInMap(events, seriesKey, updated)
+      : addToMap(removeFromMap(events, series.id), newSeriesKey, updated);
+  }
+
+  if (scope === "following") {
+    // A COUNT-limited series keeps only the occurrences it had left
+    const { recurrence } = changes;
+    const followingRule = recurrence && {
+      ...recurrence,
+      ...(recurrence.count !== undefined && {
+        count: Math.max(1, recurrence.count - countOccurrencesBefore(seriesKey, series.recurrence!, occurrenceKey)),
+      }),
+    };
+    const truncated = replaceInMap(events, seriesKey, truncateSeries(series, occurrenceKey));
+    return addToMap(truncated, targetKey, {
+      ...stripRecurrence(changes),
+      id: newId,
+      ...(followingRule && {
+        recurrence: followingRule,
+        exceptionDates: series.exceptionDates?.filter((dateKey) => dateKey > occurrenceKey),
+      }),
+    });
+  }
+
+  // A single edited occurrence becomes a standalone event linked back to its series
+  const withException = replaceInMap(events, seriesKey, {
+    ...series,
+    exceptionDates: [...(series.exceptionDates || []), occurrenceKey],
+  });
+  return addToMap(withException, targetKey, {
+    ...stripRecurrence(changes),
+    id: newId,
+    recurringEventId: series.id,
+  });
+}
+
+// Moves a single occurrence to another date, detaching it from its series
+export function moveOccurrence(
+  events: Record<string, Event[]>,
+  seriesId: string,
+  occurrenceKey: string,
+  destinationKey: string,
+  newId: string
+): Record<string, Event[]> {
+  const found = findSeries(events, seriesId);
+  if (!found) return events;
+  const { seriesKey, series } = found;
+
+  const withException = replaceInMap(events, seriesKey, {
+    ...series,
+    exceptionDates: [...(series.exceptionDates || []), occurrenceKey],
+  });
+  return addToMap(withException, destinationKey, {
+    ...stripRecurrence(shiftEndDate(series, seriesKey, destinationKey)),
+    id: newId,
+    recurringEventId: series.id,
+  });
+}
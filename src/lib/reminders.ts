@@ -0,0 +1,126 @@
+import { addDaysToKey, dateFromKey, getLocalTimeZone, toDateKey } from "./dateKeys";
+import { Event, listEvents, toDisplayEvents } from "./events";
+import { expandEvents } from "./recurrence";
+
+export const REMINDER_OPTIONS = [
+  { minutes: 10, label: "10 minutes before" },
+  { minutes: 60, label: "1 hour before" },
+  { minutes: 24 * 60, label: "1 day before" },
+];
+
+// One reminder of one occurrence of an event
+export interface Reminder {
+  // Stable across checks and tabs, so the same reminder isn't shown twice
+  key: string;
+  event: Event;
+  // Local date key the occurrence starts on
+  dateKey: string;
+  minutesBefore: number;
+  remindAt: number;
+  startsAt: number;
+}
+
+export interface DueReminders {
+  // Reminders for events that haven't started yet
+  due: Reminder[];
+  // Reminders that came due while the calendar was closed, for events already under way or over
+  missed: Reminder[];
+}
+
+const CHECKED_AT_STORAGE_KEY = "calendar_reminders_checked_at";
+// Reminders that came due longer ago than this while the calendar was closed are dropped
+const MISSED_REMINDER_LOOKBACK = 7 * 24 * 60 * 60 * 1000;
+
+const toLocalTimestamp = (dateKey: string, time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = dateFromKey(dateKey);
+  date.setHours(hours, minutes);
+  return date.getTime();
+};
+
+export const describeReminder = (minutes: number): string =>
+  REMINDER_OPTIONS.find((option) => option.minutes === minutes)?.label || `${minutes} minutes before`;
+
+// E.g. "in 10 minutes", "in 1 hour" or "in 2 days"
+export function formatTimeUntil(milliseconds: number): string {
+  const minutes = Math.max(0, Math.round(milliseconds / 60000));
+  const [amount, unit] =
+    minutes < 60 ? [minutes, "minute"] : minutes < 24 * 60 ? [Math.round(minutes / 60), "hour"] : [Math.round(minutes / (24 * 60)), "day"];
+  return `in ${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+// Reminders that fire after `from` and up to `to` (timestamps), including those of
+// recurring occurrences, in firing order
+export function listReminders(events: Record<string, Event[]>, from: number, to: number): Reminder[] {
+  const longestOffset = Math.max(0, ...listEvents(events).flatMap(({ event }) => event.reminders || []));
+  // A day either side covers events whose local day differs from their stored day
+  const rangeStart = addDaysToKey(toDateKey(new Date(from)), -1);
+  const rangeEnd = addDaysToKey(toDateKey(new Date(to + longestOffset * 60000)), 1);
+  const occurrences = toDisplayEvents(expandEvents(events, rangeStart, rangeEnd), getLocalTimeZone());
+
+  return listEvents(occurrences)
+    .flatMap(({ dateKey, event }) =>
+      (event.reminders || []).map((minutesBefore) => {
+        const startsAt = toLocalTimestamp(dateKey, event.startTime);
+        return {
+          key: `${event.id}:${dateKey}:${minutesBefore}`,
+          event,
+          dateKey,
+          minutesBefore,
+          remindAt: startsAt - minutesBefore * 60000,
+          startsAt,
+        };
+      })
+    )
+    .filter((reminder) => reminder.remindAt > from && reminder.remindAt <= to)
+    .sort((a, b) => a.remindAt - b.remindAt);
+}
+
+// Collects reminders that came due since the last check by any tab, and records this
+// check. The first check after the calendar was closed picks up the ones it missed.
+export function collectDueReminders(events: Record<string, Event[]>, now = Date.now()): DueReminders {
+  let checkedAt = now;
+  try {
+    const stored = Number(localStorage.getItem(CHECKED_AT_STORAGE_KEY));
+    if (stored > 0) checkedAt = Math.max(stored, now - MISSED_REMINDER_LOOKBACK);
+    localStorage.setItem(CHECKED_AT_STORAGE_KEY, String(now));
+  } catch (error) {
+    console.error("Error reading reminder state:", error);
+  }
+
+  const reminders = listReminders(events, Math.min(checkedAt, now), now);
+  return {
+    due: reminders.filter((reminder) => reminder.startsAt > now),
+    missed: reminders.filter((reminder) => reminder.startsAt <= now),
+  };
+}
+
+export const canNotify = (): boolean =>
+  typeof Notification !== "undefined" && Notification.permission === "granted";
+
+// Asks for notification permission the first time reminders are used
+export function requestNotificationPermission() {
+  if (typeof Notification !== "undefined" && Notification.permission === "default") {
+    Notification.requestPermission().catch((error) => {
+      console.error("Error requesting notification permission:", error);
+    });
+  }
+}
+
+// Shows a system notification; returns false when notifications aren't allowed
+export function showReminderNotification(reminder: Reminder, now = Date.now()): boolean {
+  if (!canNotify()) return false;
+  try {
+    const notification = new Notification(reminder.event.title, {
+      body: `Starts ${formatTimeUntil(reminder.startsAt - now)}, at ${reminder.event.startTime}`,
+      // Tabs that fire the same reminder replace each other's notification
+      tag: reminder.key,
+    });
+    notification.onclick = () => window.focus();
+    return true;
+  } catch (error) {
+    // Some browsers only allow notifications from a service worker
+    console.error("Error showing notification:", error);
+    return false;
+  }
+}
@@ -0,0 +1,148 @@
+import { addDaysToKey } from "./dateKeys";
+import { Event, convertEventTimeZone, listEvents } from "./events";
+import { Category, getCategoryName } from "./categories";
+import { getOccurrenceDates, shiftEndDate } from "./recurrence";
+import { attendeeMatches } from "./attendees";
+
+// A parsed search such as `category:work after:2026-10-01 "team sync" -cancelled`
+export interface SearchQuery {
+  // Words and quoted phrases that must all appear in the title, description or attendees
+  include: string[];
+  // Words and quoted phrases that must not appear
+  exclude: string[];
+  // Category ids or names, any of which may match
+  categories: string[];
+  excludedCategories: string[];
+  // Names or emails, each of which must belong to one of the event's attendees
+  attendees: string[];
+  excludedAttendees: string[];
+  // Events starting on or after this date key
+  after?: string;
+  // Events starting before this date key
+  before?: string;
+  errors: string[];
+}
+
+// How far ahead recurring series are searched for their next occurrence
+const RECURRENCE_SEARCH_DAYS = 5 * 366;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// An optional "-", an optional "field:", then a quoted phrase or a bare word
+const TOKEN_PATTERN = /(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export const SEARCH_SYNTAX_HELP =
+  'Words match titles, descriptions and attendees. "exact phrase", -exclude, category:work, attendee:ada, after:YYYY-MM-DD (on or after), before:YYYY-MM-DD';
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = {
+    include: [],
+    exclude: [],
+    categories: [],
+    excludedCategories: [],
+    attendees: [],
+    excludedAttendees: [],
+    errors: [],
+  };
+
+  for (const [, negated, field, phrase, word] of input.matchAll(TOKEN_PATTERN)) {
+    const value = (phrase ?? word ?? "").trim().toLowerCase();
+    const name = field?.toLowerCase();
+
+    if (name === "category") {
+      if (value) (negated ? query.excludedCategories : query.categories).push(value);
+    } else if (name === "attendee") {
+      if (value) (negated ? query.excludedAttendees : query.attendees).push(value);
+    } else if (name === "before" || name === "after") {
+      if (!DATE_KEY_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+        query.errors.push(`${name}: expects a YYYY-MM-DD date`);
+      } else {
+        query[name] = value;
+      }
+    } else {
+      // Unknown fields such as "http:" are searched as plain text
+      const text = name ? `${name}:${value}` : value;
+      if (text && text !== "-") (negated ? query.exclude : query.include).push(text);
+    }
+  }
+
+  return query;
+}
+
+export const isEmptyQuery = (query: SearchQuery): boolean =>
+  query.include.length === 0 &&
+  query.exclude.length === 0 &&
+  query.categories.length === 0 &&
+  query.excludedCategories.length === 0 &&
+  query.attendees.length === 0 &&
+  query.excludedAttendees.length === 0 &&
+  !query.after &&
+  !query.before;
+
+const isInCategory = (event: Event, values: string[], categories: Category[]) =>
+  values.some((value) => value === event.category || value === getCategoryName(categories, event.category).toLowerCase());
+
+// Whether an event starting on dateKey matches every part of the query
+export function matchesQuery(event: Event, dateKey: string, query: SearchQuery, categories: Category[]): boolean {
+  const attendees = event.attendees || [];
+  const text = [event.title, event.description || "", ...attendees.flatMap(({ name, email }) => [name, email])]
+    .join("\n")
+    .toLowerCase();
+  return (
+    query.include.every((value) => text.includes(value)) &&
+    !query.exclude.some((value) => text.includes(value)) &&
+    (query.categories.length === 0 || isInCategory(event, query.categories, categories)) &&
+    !isInCategory(event, query.excludedCategories, categories) &&
+    query.attendees.every((value) => attendees.some((attendee) => attendeeMatches(attendee, value))) &&
+    !query.excludedAttendees.some((value) => attendees.some((attendee) => attendeeMatches(attendee, value))) &&
+    (!query.after || dateKey >= query.after) &&
+    (!query.before || dateKey < query.before)
+  );
+}
+
+// The events of a date-keyed map that match, dropping days that end up empty
+export function filterEvents(
+  events: Record<string, Event[]>,
+  query: SearchQuery,
+  categories: Category[]
+): Record<string, Event[]> {
+  if (isEmptyQuery(query)) return events;
+  const matching: Record<string, Event[]> = {};
+  Object.entries(events).forEach(([dateKey, dayEvents]) => {
+    const dayMatches = dayEvents.filter((event) => matchesQuery(event, dateKey, query, categories));
+    if (dayMatches.length > 0) matching[dateKey] = dayMatches;
+  });
+  return matching;
+}
+
+// Matching events across every date, on the display clock, in date order. A recurring
+// series appears once, at its next occurrence within the query's dates (or its last one,
+// when the series has ended).
+export function searchEvents(
+  events: Record<string, Event[]>,
+  query: SearchQuery,
+  categories: Category[],
+  displayTimeZone: string,
+  todayKey: string
+): { dateKey: string; event: Event }[] {
+  if (isEmptyQuery(query)) return [];
+
+  const from = query.after || todayKey;
+  const to = query.before ? addDaysToKey(query.before, -1) : addDaysToKey(from, RECURRENCE_SEARCH_DAYS);
+
+  return listEvents(events)
+    .flatMap(({ dateKey, event }) => {
+      if (!event.recurrence) return [{ dateKey, event }];
+      const upcoming = getOccurrenceDates(dateKey, event.recurrence, from, to, event.exceptionDates)[0];
+      const occurrenceKey =
+        upcoming ||
+        (query.after ? undefined : getOccurrenceDates(dateKey, event.recurrence, dateKey, to, event.exceptionDates).pop());
+      return occurrenceKey ? [{ dateKey: occurrenceKey, event: shiftEndDate(event, dateKey, occurrenceKey) }] : [];
+    })
+    .map((entry) =>
+      entry.event.timeZone
+        ? convertEventTimeZone(entry.event, entry.dateKey, entry.event.timeZone, displayTimeZone)
+        : entry
+    )
+    .filter(({ dateKey, event }) => matchesQuery(event, dateKey, query, categories))
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey) || a.event.startTime.localeCompare(b.event.startTime));
+}
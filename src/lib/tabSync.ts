@@ -0,0 +1,66 @@
+import { EventChange } from "./history";
+
+// Carries each tab's event changes to the other tabs and windows showing the calendar
+export interface TabSync {
+  broadcast(changes: EventChange[]): void;
+  close(): void;
+}
+
+interface SyncMessage {
+  tabId: string;
+  changes: EventChange[];
+}
+
+const CHANNEL_NAME = "dynamic-event-calendar";
+// localStorage key used to signal other tabs where BroadcastChannel is unavailable
+const SYNC_STORAGE_KEY = "calendar_sync";
+
+const isSyncMessage = (value: unknown): value is SyncMessage =>
+  Boolean(value) &&
+  typeof (value as SyncMessage).tabId === "string" &&
+  Array.isArray((value as SyncMessage).changes);
+
+// Uses a BroadcastChannel, falling back to `storage` events fired by a localStorage key
+export function createTabSync(onRemoteChanges: (changes: EventChange[]) => void): TabSync {
+  const tabId = Math.random().toString(36).slice(2);
+
+  const receive = (message: unknown) => {
+    if (isSyncMessage(message) && message.tabId !== tabId && message.changes.length > 0) {
+      onRemoteChanges(message.changes);
+    }
+  };
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent) => receive(e.data);
+    return {
+      broadcast: (changes) => {
+        if (changes.length > 0) channel.postMessage({ tabId, changes });
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== SYNC_STORAGE_KEY || !e.newValue) return;
+    try {
+      receive(JSON.parse(e.newValue));
+    } catch (error) {
+      console.error("Error reading changes from another tab:", error);
+    }
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return {
+    broadcast: (changes) => {
+      if (changes.length === 0) return;
+      try {
+        // The timestamp makes repeated identical changes still fire a storage event
+        localStorage.setItem(SYNC_STORAGE_KEY, JSON.stringify({ tabId, changes, sentAt: Date.now() }));
+      } catch (error) {
+        console.error("Error sending changes to other tabs:", error);
+      }
+    },
+    close: () => window.removeEventListener("storage", handleStorage),
+  };
+}
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { Event, eventFieldsSchema, timeSchema } from "./eventSchema";
+import { generateEventId } from "./events";
+import { addDaysToKey } from "./dateKeys";
+import { getEventDurationMinutes, toMinutes, toTime } from "./freeSlots";
+
+const DAY_MINUTES = 24 * 60;
+
+// A saved starting point for events created again and again, such as a weekly 1:1
+export const templateSchema = z.object({
+  id: z.string().min(1),
+  // Shown in the template library and pickers
+  name: z.string().trim().min(1, "Name is required").max(40, "Name must be at most 40 characters"),
+  title: eventFieldsSchema.shape.title,
+  startTime: timeSchema,
+  // Up to a week, so templates can cover multi-day events
+  durationMinutes: z
+    .number()
+    .int("Length must be whole minutes")
+    .min(1, "Length must be at least 1 minute")
+    .max(7 * DAY_MINUTES, "Length must be at most 7 days"),
+  category: z.string().min(1),
+  color: z.string().optional(),
+  description: eventFieldsSchema.shape.description,
+});
+
+export type EventTemplate = z.infer<typeof templateSchema>;
+
+const TEMPLATES_STORAGE_KEY = "calendar_templates";
+
+export function loadTemplates(): EventTemplate[] {
+  try {
+    const parsed = z.array(templateSchema).safeParse(JSON.parse(localStorage.getItem(TEMPLATES_STORAGE_KEY) || "[]"));
+    return parsed.success ? parsed.data : [];
+  } catch (error) {
+    console.error("Error loading templates:", error);
+    return [];
+  }
+}
+
+export function saveTemplates(templates: EventTemplate[]) {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Error saving templates:", error);
+  }
+}
+
+// A template holding an event's details and length, named after its title unless given a name
+export function templateFromEvent(event: Omit<Event, "id">, dateKey: string, name = event.title): EventTemplate {
+  return {
+    id: generateEventId(),
+    name: name.slice(0, 40),
+    title: event.title,
+    startTime: event.startTime,
+    durationMinutes: Math.max(getEventDurationMinutes({ ...event, id: "" }, dateKey), 1),
+    category: event.category,
+    ...(event.color && { color: event.color }),
+    ...(event.description && { description: event.description }),
+  };
+}
+
+// The event a template creates on the given day; long templates run into the following days
+export function eventFromTemplate(template: EventTemplate, dateKey: string): Omit<Event, "id"> {
+  const end = toMinutes(template.startTime) + template.durationMinutes;
+  const endDate = addDaysToKey(dateKey, Math.floor(end / DAY_MINUTES));
+  return {
+    title: template.title,
+    startTime: template.startTime,
+    endTime: toTime(end % DAY_MINUTES),
+    category: template.category,
+    ...(template.color && { color: template.color }),
+    ...(template.description && { description: template.description }),
+    ...(endDate > dateKey && { endDate }),
+  };
+}
+
+// Templates of a deleted category move to another one, like its events
+export const reassignTemplates = (templates: EventTemplate[], from: string, to: string): EventTemplate[] =>
+  templates.map((template) => (template.category === from ? { ...template, category: to } : template));
+
+// Length for display, e.g. "45m", "1h 30m" or "2d 1h"
+export function formatDuration(minutes: number): string {
+  const days = Math.floor(minutes / DAY_MINUTES);
+  const hours = Math.floor((minutes % DAY_MINUTES) / 60);
+  const rest = minutes % 60;
+  return [days && `${days}d`, hours && `${hours}h`, rest && `${rest}m`].filter(Boolean).join(" ") || "0m";
+}